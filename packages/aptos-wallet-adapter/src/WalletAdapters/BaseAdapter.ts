@@ -1,5 +1,6 @@
 import { MaybeHexString, Types } from 'aptos';
 import EventEmitter from 'eventemitter3';
+import { WalletConnectionStateError, WalletError } from '../WalletProviders/errors';
 
 declare global {
   interface Window {
@@ -20,14 +21,42 @@ export interface AccountKeys {
   minKeysRequired?: number;
 }
 
+// Bumped whenever an event payload changes shape, so listeners can check what they received
+export const WALLET_EVENT_VERSION = 1;
+
+export interface WalletAccountEvent {
+  version: typeof WALLET_EVENT_VERSION;
+  account: AccountKeys;
+}
+
+export interface WalletNetworkEvent {
+  version: typeof WALLET_EVENT_VERSION;
+  network: NetworkInfo;
+}
+
+export interface WalletDisconnectEvent {
+  version: typeof WALLET_EVENT_VERSION;
+  // The wallet ended the session, e.g. it was locked, rather than a `disconnect()` call
+  byWallet: boolean;
+}
+
+export interface WalletStateChangeEvent {
+  version: typeof WALLET_EVENT_VERSION;
+  state: WalletConnectionState;
+  previousState: WalletConnectionState;
+  // Set when entering `Error`, the failure that ended the connect
+  error?: WalletError;
+}
+
 export interface WalletAdapterEvents {
-  connect(publicKey: PublicKey): void;
-  disconnect(): void;
+  stateChange(event: WalletStateChangeEvent): void;
+  connect(event: WalletAccountEvent): void;
+  disconnect(event: WalletDisconnectEvent): void;
   error(error: any): void;
   success(value: any): void;
   readyStateChange(readyState: WalletReadyState): void;
-  networkChange(network: WalletAdapterNetwork): void;
-  accountChange(account: string): void;
+  networkChange(event: WalletNetworkEvent): void;
+  accountChange(event: WalletAccountEvent): void;
 }
 
 export enum WalletReadyState {
@@ -50,41 +79,102 @@ export enum WalletReadyState {
   Unsupported = 'Unsupported'
 }
 
+/**
+ * disconnected -> connecting -> connected -> disconnecting -> disconnected. A failed connect
+ * ends in `Error`, from which the adapter can connect again. Wallets that restore a session
+ * on their own go straight to `Connected`, and a locked wallet straight to `Disconnected`.
+ */
+export enum WalletConnectionState {
+  Disconnected = 'disconnected',
+  Connecting = 'connecting',
+  Connected = 'connected',
+  Disconnecting = 'disconnecting',
+  Error = 'error'
+}
+
+const CONNECTION_TRANSITIONS: { [state: string]: WalletConnectionState[] } = {
+  [WalletConnectionState.Disconnected]: [
+    WalletConnectionState.Connecting,
+    WalletConnectionState.Connected
+  ],
+  [WalletConnectionState.Connecting]: [
+    WalletConnectionState.Connected,
+    WalletConnectionState.Error
+  ],
+  [WalletConnectionState.Connected]: [
+    WalletConnectionState.Disconnecting,
+    WalletConnectionState.Disconnected
+  ],
+  [WalletConnectionState.Disconnecting]: [WalletConnectionState.Disconnected],
+  [WalletConnectionState.Error]: [
+    WalletConnectionState.Connecting,
+    WalletConnectionState.Connected,
+    WalletConnectionState.Disconnected
+  ]
+};
+
 export type WalletName<T extends string = string> = T & { __brand__: 'WalletName' };
 
 export type NetworkInfo = {
   api?: string;
-  chainId?: string;
+  chainId?: string; // A decimal string on every adapter, e.g. '251' for Barnard
   name: WalletAdapterNetwork | undefined;
 };
 
 export enum WalletAdapterNetwork {
   Mainnet = 'mainnet',
   Testnet = 'testnet',
-  Devnet = 'devnet'
+  Devnet = 'devnet',
+  // Starcoin networks
+  Main = 'main',
+  Proxima = 'proxima',
+  Barnard = 'barnard',
+  Halley = 'halley',
+  Dev = 'dev'
+}
+
+export interface WalletAdapterFeatures {
+  signTransaction: boolean; // Sign without submitting
+  signAndSubmitTransaction: boolean;
+  signMessage: boolean;
+  disconnect: boolean; // Otherwise the wallet keeps the site authorized after disconnecting
+  accountChange: boolean;
+  networkChange: boolean;
+  switchNetwork: boolean; // The dapp can ask the wallet to change network
+  multisig: boolean; // `publicAccount.publicKey` may hold several keys
 }
 
 export interface WalletAdapterProps<Name extends string = string> {
   name: WalletName<Name>;
   url: string;
   icon: string;
+  features: WalletAdapterFeatures;
   readyState: WalletReadyState;
+  connectionState: WalletConnectionState;
   connecting: boolean;
   connected: boolean;
   publicAccount: AccountKeys;
   network: NetworkInfo;
-  onAccountChange(): Promise<void>;
-  onNetworkChange(): Promise<void>;
-  connect(): Promise<void>;
+  // Both resolve to an unsubscribe function, calling them again doesn't stack listeners
+  onAccountChange(): Promise<() => void>;
+  onNetworkChange(): Promise<() => void>;
+  connect(options?: AdapterCallOptions): Promise<void>;
   disconnect(): Promise<void>;
+  // `options` are passed to the wallet, apart from the `AdapterCallOptions` keys
   signAndSubmitTransaction(
     transaction: Types.TransactionPayload,
     options?: any
   ): Promise<{ hash: Types.HexEncodedBytes }>;
   signTransaction(transaction: Types.TransactionPayload, options?: any): Promise<Uint8Array>;
   signMessage(
-    message: string | SignMessagePayload | Uint8Array
+    message: string | SignMessagePayload | Uint8Array,
+    options?: AdapterCallOptions
   ): Promise<string | SignMessageResponse>;
+  waitForTransaction(
+    hash: Types.HexEncodedBytes,
+    options?: WaitForTransactionOptions
+  ): Promise<TransactionReceipt>;
+  dispose(): void;
 }
 
 export type WalletAdapter<Name extends string = string> = WalletAdapterProps<Name> &
@@ -109,6 +199,38 @@ export interface SignMessageResponse {
   signature: string; // The signed full message
 }
 
+export interface AdapterCallOptions {
+  timeout?: number; // Milliseconds, defaults to the adapter's `timeout` config
+  signal?: AbortSignal; // Aborting rejects the call with `WalletAbortedError`
+}
+
+export interface WaitForTransactionOptions {
+  timeoutMs?: number; // Defaults to 30 seconds
+  pollIntervalMs?: number; // Defaults to 1 second
+  signal?: AbortSignal; // Stops polling with `WalletAbortedError`
+}
+
+export interface TransactionEvent {
+  type: string;
+  key?: string;
+  sequenceNumber?: string;
+  data: any;
+}
+
+export interface TransactionReceipt {
+  hash: string;
+  success: boolean;
+  gasUsed: string;
+  vmStatus: string;
+  events: TransactionEvent[];
+}
+
+// Registered with the wallet once per event, and muted rather than stacked on resubscribe
+interface ProviderSubscription {
+  active: boolean;
+  remove?: () => void;
+}
+
 export abstract class BaseWalletAdapter
   extends EventEmitter<WalletAdapterEvents>
   implements WalletAdapter
@@ -119,19 +241,29 @@ export abstract class BaseWalletAdapter
 
   abstract icon: string;
 
+  abstract features: WalletAdapterFeatures;
+
   abstract get readyState(): WalletReadyState;
 
   abstract get publicAccount(): AccountKeys;
 
   abstract get network(): NetworkInfo;
 
-  abstract get connecting(): boolean;
+  protected _connectionState: WalletConnectionState = WalletConnectionState.Disconnected;
+
+  get connectionState(): WalletConnectionState {
+    return this._connectionState;
+  }
+
+  get connecting(): boolean {
+    return this._connectionState === WalletConnectionState.Connecting;
+  }
 
   get connected(): boolean {
-    return !!this.publicAccount.publicKey;
+    return this._connectionState === WalletConnectionState.Connected;
   }
 
-  abstract connect(): Promise<void>;
+  abstract connect(options?: AdapterCallOptions): Promise<void>;
   abstract disconnect(): Promise<void>;
   abstract signAndSubmitTransaction(
     transaction: Types.TransactionPayload
@@ -140,35 +272,249 @@ export abstract class BaseWalletAdapter
   abstract signTransaction(transaction: Types.TransactionPayload): Promise<Uint8Array>;
 
   abstract signMessage(
-    message: string | SignMessagePayload | Uint8Array
+    message: string | SignMessagePayload | Uint8Array,
+    options?: AdapterCallOptions
   ): Promise<string | SignMessageResponse>;
 
-  abstract onAccountChange(): Promise<void>;
-  abstract onNetworkChange(): Promise<void>;
+  abstract waitForTransaction(
+    hash: Types.HexEncodedBytes,
+    options?: WaitForTransactionOptions
+  ): Promise<TransactionReceipt>;
+
+  abstract onAccountChange(): Promise<() => void>;
+  abstract onNetworkChange(): Promise<() => void>;
+
+  protected _startDetection: (() => () => void) | undefined;
+
+  protected _disposeDetection: (() => void) | undefined;
+
+  protected _providerSubscriptions: { [event: string]: ProviderSubscription } = {};
+
+  /**
+   * Stops background work such as wallet detection while nothing listens to the adapter.
+   * A connected session keeps its wallet subscriptions, and the next listener resumes detection,
+   * so an adapter outliving a provider that unmounts or remounts still works.
+   */
+  dispose(): void {
+    this._disposeDetection?.();
+    this._disposeDetection = undefined;
+    if (!this.connected) this.removeProviderSubscriptions();
+  }
+
+  on<T extends EventEmitter.EventNames<WalletAdapterEvents>>(
+    event: T,
+    fn: EventEmitter.EventListener<WalletAdapterEvents, T>,
+    context?: any
+  ): this {
+    super.on(event, fn, context);
+    this.resumeDetection();
+    return this;
+  }
+
+  addListener<T extends EventEmitter.EventNames<WalletAdapterEvents>>(
+    event: T,
+    fn: EventEmitter.EventListener<WalletAdapterEvents, T>,
+    context?: any
+  ): this {
+    super.addListener(event, fn, context);
+    this.resumeDetection();
+    return this;
+  }
+
+  once<T extends EventEmitter.EventNames<WalletAdapterEvents>>(
+    event: T,
+    fn: EventEmitter.EventListener<WalletAdapterEvents, T>,
+    context?: any
+  ): this {
+    super.once(event, fn, context);
+    this.resumeDetection();
+    return this;
+  }
+
+  // Runs `start` now, and again when the adapter is used after `dispose` before the wallet showed up
+  protected startDetection(start: () => () => void): void {
+    this._startDetection = start;
+    this._disposeDetection = start();
+  }
+
+  // Detection may find the wallet right away, so listeners are registered before it resumes
+  protected resumeDetection(): void {
+    if (
+      !this._disposeDetection &&
+      this._startDetection &&
+      this.readyState === WalletReadyState.NotDetected
+    ) {
+      this._disposeDetection = this._startDetection();
+    }
+  }
+
+  /**
+   * Calls `listen` to register with the wallet the first time only, later calls re-enable it.
+   * Handlers should check `isActive` first. `listen` may return a function detaching them.
+   */
+  protected async subscribeToProvider(
+    event: string,
+    listen: (isActive: () => boolean) => void | (() => void) | Promise<void | (() => void)>
+  ): Promise<() => void> {
+    let subscription = this._providerSubscriptions[event];
+    if (!subscription) {
+      const created: ProviderSubscription = { active: true };
+      this._providerSubscriptions[event] = created;
+      try {
+        created.remove = (await listen(() => created.active)) || undefined;
+      } catch (error: any) {
+        if (this._providerSubscriptions[event] === created)
+          delete this._providerSubscriptions[event];
+        throw error;
+      }
+      subscription = created;
+    }
+    subscription.active = true;
+    const current = subscription;
+    return () => {
+      current.active = false;
+    };
+  }
+
+  // Moves the state machine, throwing `WalletConnectionStateError` for transitions it doesn't allow
+  protected transition(state: WalletConnectionState, error?: WalletError): void {
+    const previousState = this._connectionState;
+    if (state === previousState) return;
+    if (!CONNECTION_TRANSITIONS[previousState].includes(state)) {
+      throw new WalletConnectionStateError(
+        `${this.name} cannot go from ${previousState} to ${state}`,
+        previousState
+      );
+    }
+    this._connectionState = state;
+    this.emit('stateChange', { version: WALLET_EVENT_VERSION, state, previousState, error });
+  }
+
+  // Connects and disconnects don't overlap, the second one is rejected instead of queued
+  protected assertIdle(operation: 'connect' | 'disconnect'): void {
+    const state = this._connectionState;
+    if (
+      state === WalletConnectionState.Connecting ||
+      state === WalletConnectionState.Disconnecting
+    ) {
+      throw new WalletConnectionStateError(`Cannot ${operation} while ${state}`, state);
+    }
+  }
+
+  // Payloads are snapshots of `publicAccount` and `network`, taken once the adapter has updated them
+  protected emitAccountEvent(event: 'connect' | 'accountChange'): void {
+    this.emit(event, { version: WALLET_EVENT_VERSION, account: { ...this.publicAccount } });
+  }
+
+  protected emitDisconnect(byWallet = false): void {
+    this.emit('disconnect', { version: WALLET_EVENT_VERSION, byWallet });
+  }
+
+  protected emitNetworkChange(): void {
+    this.emit('networkChange', { version: WALLET_EVENT_VERSION, network: { ...this.network } });
+  }
+
+  // Listeners the wallet cannot detach stay registered but muted, and the next subscribe reuses them
+  protected removeProviderSubscriptions(): void {
+    const subscriptions = this._providerSubscriptions;
+    Object.keys(subscriptions).forEach((event) => {
+      const { remove } = subscriptions[event];
+      subscriptions[event].active = false;
+      if (remove) {
+        delete subscriptions[event];
+        remove();
+      }
+    });
+  }
+}
+
+export interface DetectionOptions {
+  // Window events an extension dispatches once its provider is injected
+  events?: string[];
+  deadlineMs?: number; // Defaults to 30 seconds, the wallet is then left `NotDetected`
+  initialIntervalMs?: number; // Defaults to 100 ms, doubled after every miss
+  maxIntervalMs?: number; // Defaults to 5 seconds
+  onDeadline?: () => void;
 }
 
-export function scopePollingDetectionStrategy(detect: () => boolean): void {
+function runWhenIdle(callback: () => void): () => void {
+  if (typeof window.requestIdleCallback === 'function') {
+    const handle = window.requestIdleCallback(callback, { timeout: 1000 });
+    return () => window.cancelIdleCallback(handle);
+  }
+  // Safari has no idle callbacks
+  const handle = setTimeout(callback, 1);
+  return () => clearTimeout(handle);
+}
+
+/**
+ * Runs `detect` until it returns true or `deadlineMs` passes, whichever comes first.
+ * Returns a function that stops detection early, e.g. when the provider unmounts.
+ */
+export function scopePollingDetectionStrategy(
+  detect: () => boolean,
+  {
+    events = [],
+    deadlineMs = 30000,
+    initialIntervalMs = 100,
+    maxIntervalMs = 5000,
+    onDeadline
+  }: DetectionOptions = {}
+): () => void {
   // Early return when server-side rendering
-  if (typeof window === 'undefined' || typeof document === 'undefined') return;
+  if (typeof window === 'undefined' || typeof document === 'undefined') return () => {};
 
   const disposers: (() => void)[] = [];
+  let disposed = false;
+
+  function dispose() {
+    if (disposed) return;
+    disposed = true;
+    for (const disposer of disposers) {
+      disposer();
+    }
+  }
 
   function detectAndDispose() {
+    if (disposed) return;
     const detected = detect();
     if (detected) {
-      for (const dispose of disposers) {
-        dispose();
-      }
+      dispose();
     }
   }
 
-  // Strategy #1: Try detecting every second.
-  const interval =
-    // TODO: #334 Replace with idle callback strategy.
-    setInterval(detectAndDispose, 1000);
-  disposers.push(() => clearInterval(interval));
+  // Strategy #1: Retry while the browser is idle, backing off exponentially until the deadline.
+  const startedAt = Date.now();
+  let interval = initialIntervalMs;
+  let cancelScheduled = () => {};
+  disposers.push(() => cancelScheduled());
+
+  function scheduleDetection() {
+    const remaining = deadlineMs - (Date.now() - startedAt);
+    if (remaining <= 0) {
+      dispose();
+      onDeadline?.();
+      return;
+    }
+    const timer = setTimeout(() => {
+      cancelScheduled = runWhenIdle(() => {
+        detectAndDispose();
+        if (disposed) return;
+        interval = Math.min(interval * 2, maxIntervalMs);
+        scheduleDetection();
+      });
+    }, Math.min(interval, remaining));
+    cancelScheduled = () => clearTimeout(timer);
+  }
+  scheduleDetection();
 
-  // Strategy #2: Detect as soon as the DOM becomes 'ready'/'interactive'.
+  // Strategy #2: Detect as soon as the extension announces itself.
+  for (const event of events) {
+    window.addEventListener(event, detectAndDispose);
+    disposers.push(() => window.removeEventListener(event, detectAndDispose));
+  }
+
+  // Strategy #3: Detect as soon as the DOM becomes 'ready'/'interactive'.
   if (
     // Implies that `DOMContentLoaded` has not yet fired.
     document.readyState === 'loading'
@@ -177,7 +523,7 @@ export function scopePollingDetectionStrategy(detect: () => boolean): void {
     disposers.push(() => document.removeEventListener('DOMContentLoaded', detectAndDispose));
   }
 
-  // Strategy #3: Detect after the `window` has fully loaded.
+  // Strategy #4: Detect after the `window` has fully loaded.
   if (
     // If the `complete` state has been reached, we're too late.
     document.readyState !== 'complete'
@@ -186,6 +532,8 @@ export function scopePollingDetectionStrategy(detect: () => boolean): void {
     disposers.push(() => window.removeEventListener('load', detectAndDispose));
   }
 
-  // Strategy #4: Detect synchronously, now.
+  // Strategy #5: Detect synchronously, now.
   detectAndDispose();
+
+  return dispose;
 }
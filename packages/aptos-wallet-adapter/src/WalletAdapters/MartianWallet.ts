@@ -1,6 +1,7 @@
 import { MaybeHexString, Types } from 'aptos';
 import {
   WalletAccountChangeError,
+  WalletConnectionError,
   WalletDisconnectionError,
   WalletGetNetworkError,
   WalletNetworkChangeError,
@@ -12,15 +13,26 @@ import {
 } from '../WalletProviders/errors';
 import {
   AccountKeys,
+  AdapterCallOptions,
   BaseWalletAdapter,
+  DetectionOptions,
   NetworkInfo,
   scopePollingDetectionStrategy,
   SignMessagePayload,
   SignMessageResponse,
+  TransactionReceipt,
+  WaitForTransactionOptions,
+  WalletAdapterFeatures,
   WalletAdapterNetwork,
+  WalletConnectionState,
   WalletName,
   WalletReadyState
 } from './BaseAdapter';
+import { validateTransactionPayload } from '../utilities/payloadValidation';
+import { waitForAptosTransaction } from '../utilities/waitForTransaction';
+import { getAptosNodeUrl } from '../config/aptosConstants';
+import { withTimeout } from '../utilities/util';
+import { toWalletError } from '../utilities/walletErrors';
 
 interface ConnectMartianAccount {
   address: MaybeHexString;
@@ -62,6 +74,7 @@ export interface MartianWalletAdapterConfig {
   provider?: IMartianWallet;
   // network?: WalletAdapterNetwork;
   timeout?: number;
+  detection?: DetectionOptions;
 }
 
 export class MartianWalletAdapter extends BaseWalletAdapter {
@@ -71,6 +84,17 @@ export class MartianWalletAdapter extends BaseWalletAdapter {
 
   icon = 'https://raw.githubusercontent.com/hippospace/aptos-wallet-adapter/main/logos/martian.png';
 
+  features: WalletAdapterFeatures = {
+    signTransaction: true,
+    signAndSubmitTransaction: true,
+    signMessage: true,
+    disconnect: true,
+    accountChange: true,
+    networkChange: true,
+    switchNetwork: false,
+    multisig: false
+  };
+
   protected _provider: IMartianWallet | undefined;
 
   protected _network: WalletAdapterNetwork;
@@ -86,32 +110,42 @@ export class MartianWalletAdapter extends BaseWalletAdapter {
       ? WalletReadyState.Unsupported
       : WalletReadyState.NotDetected;
 
-  protected _connecting: boolean;
-
   protected _wallet: MartianAccount | null;
 
   constructor({
     // provider,
     // network = WalletAdapterNetwork.Testnet,
-    timeout = 10000
+    timeout = 10000,
+    detection
   }: MartianWalletAdapterConfig = {}) {
     super();
 
     this._provider = typeof window !== 'undefined' ? window.martian : undefined;
     this._network = undefined;
     this._timeout = timeout;
-    this._connecting = false;
     this._wallet = null;
 
     if (typeof window !== 'undefined' && this._readyState !== WalletReadyState.Unsupported) {
-      scopePollingDetectionStrategy(() => {
-        if (window.martian) {
-          this._readyState = WalletReadyState.Installed;
-          this.emit('readyStateChange', this._readyState);
-          return true;
-        }
-        return false;
-      });
+      this.startDetection(() =>
+        scopePollingDetectionStrategy(
+          () => {
+            if (window.martian) {
+              this._readyState = WalletReadyState.Installed;
+              this.emit('readyStateChange', this._readyState);
+              return true;
+            }
+            return false;
+          },
+          {
+            ...detection,
+            onDeadline: () => {
+              this._readyState = WalletReadyState.NotDetected;
+              this.emit('readyStateChange', this._readyState);
+              detection?.onDeadline?.();
+            }
+          }
+        )
+      );
     }
   }
 
@@ -131,21 +165,16 @@ export class MartianWalletAdapter extends BaseWalletAdapter {
     };
   }
 
-  get connecting(): boolean {
-    return this._connecting;
-  }
-
-  get connected(): boolean {
-    return !!this._wallet?.isConnected;
-  }
-
   get readyState(): WalletReadyState {
     return this._readyState;
   }
 
-  async connect(): Promise<void> {
+  async connect(options?: AdapterCallOptions): Promise<void> {
+    const { timeout = this._timeout, signal } = options || {};
+    if (this.connected) return;
+    this.assertIdle('connect');
+    this.transition(WalletConnectionState.Connecting);
     try {
-      if (this.connected || this.connecting) return;
       if (
         !(
           this._readyState === WalletReadyState.Loadable ||
@@ -153,63 +182,79 @@ export class MartianWalletAdapter extends BaseWalletAdapter {
         )
       )
         throw new WalletNotReadyError();
-      this._connecting = true;
 
       const provider = this._provider || window.martian;
-      const isConnected = await provider?.isConnected();
+      const isConnected = await withTimeout(
+        provider?.isConnected(),
+        timeout,
+        'isConnected',
+        signal
+      );
       if (isConnected) {
-        await provider?.disconnect();
+        await withTimeout(provider?.disconnect(), timeout, 'disconnect', signal);
       }
-      const response = await provider?.connect();
+      const response = await withTimeout(provider?.connect(), timeout, 'connect', signal);
 
       if (!response) {
         throw new WalletNotConnectedError('No connect response');
       }
 
-      const walletAccount = await provider?.account();
-      if (walletAccount) {
-        this._wallet = {
-          ...walletAccount,
-          isConnected: true
-        };
+      const walletAccount = await withTimeout(provider?.account(), timeout, 'account', signal);
+      if (!walletAccount) {
+        throw new WalletNotConnectedError('No account');
+      }
+
+      this._wallet = {
+        ...walletAccount,
+        isConnected: true
+      };
 
-        try {
-          const name = await provider?.network();
-          const { chainId } = await provider?.getChainId();
-          const api = null;
-
-          this._network = name;
-          this._chainId = chainId.toString();
-          this._api = api;
-        } catch (error: any) {
-          const errMsg = error.message;
-          this.emit('error', new WalletGetNetworkError(errMsg));
-          throw error;
-        }
+      try {
+        const name = await withTimeout(provider?.network(), timeout, 'network', signal);
+        const { chainId } = await withTimeout(
+          provider?.getChainId(),
+          timeout,
+          'getChainId',
+          signal
+        );
+        const api = null;
+
+        this._network = name;
+        this._chainId = chainId.toString();
+        this._api = api;
+      } catch (error: any) {
+        // Emitted once, by the outer catch
+        throw toWalletError(error, WalletGetNetworkError);
       }
-      this.emit('connect', this._wallet?.address || '');
+      this.transition(WalletConnectionState.Connected);
+      this.emitAccountEvent('connect');
     } catch (error: any) {
-      this.emit('error', new Error(error));
-      throw error;
-    } finally {
-      this._connecting = false;
+      const walletError = toWalletError(error, WalletConnectionError);
+      this._wallet = null;
+      this.transition(WalletConnectionState.Error, walletError);
+      this.emit('error', walletError);
+      throw walletError;
     }
   }
 
   async disconnect(): Promise<void> {
+    this.assertIdle('disconnect');
     const wallet = this._wallet;
     const provider = this._provider || window.martian;
     if (wallet) {
+      this.transition(WalletConnectionState.Disconnecting);
       this._wallet = null;
+      this.removeProviderSubscriptions();
 
       try {
-        await provider?.disconnect();
+        await withTimeout(provider?.disconnect(), this._timeout, 'disconnect');
       } catch (error: any) {
         this.emit('error', new WalletDisconnectionError(error?.message, error));
       }
     }
 
-    this.emit('disconnect');
+    this.transition(WalletConnectionState.Disconnected);
+    this.emitDisconnect();
   }
 
   async signTransaction(
@@ -220,17 +265,30 @@ export class MartianWalletAdapter extends BaseWalletAdapter {
       const wallet = this._wallet;
       const provider = this._provider || window.martian;
       if (!wallet || !provider) throw new WalletNotConnectedError();
-      const tx = await provider.generateTransaction(wallet.address || '', transactionPyld, options);
+      const payload = validateTransactionPayload(transactionPyld);
+      const { timeout = this._timeout, signal, ...txOptions } = options || {};
+      const tx = await withTimeout(
+        provider.generateTransaction(wallet.address || '', payload, txOptions),
+        timeout,
+        'generateTransaction',
+        signal
+      );
       if (!tx) throw new Error('Cannot generate transaction');
-      const response = await provider?.signTransaction(tx);
+      const response = await withTimeout(
+        provider.signTransaction(tx),
+        timeout,
+        'signTransaction',
+        signal
+      );
 
       if (!response) {
         throw new Error('No response');
       }
       return response;
     } catch (error: any) {
-      this.emit('error', new WalletSignTransactionError(error));
-      throw error;
+      const walletError = toWalletError(error, WalletSignTransactionError);
+      this.emit('error', walletError);
+      throw walletError;
     }
   }
 
@@ -242,21 +300,37 @@ export class MartianWalletAdapter extends BaseWalletAdapter {
       const wallet = this._wallet;
       const provider = this._provider || window.martian;
       if (!wallet || !provider) throw new WalletNotConnectedError();
-      const tx = await provider.generateTransaction(wallet.address || '', transactionPyld, options);
+      const payload = validateTransactionPayload(transactionPyld);
+      const { timeout = this._timeout, signal, ...txOptions } = options || {};
+      const tx = await withTimeout(
+        provider.generateTransaction(wallet.address || '', payload, txOptions),
+        timeout,
+        'generateTransaction',
+        signal
+      );
       if (!tx) throw new Error('Cannot generate transaction');
-      const response = await provider?.signAndSubmitTransaction(tx);
+      const response = await withTimeout(
+        provider.signAndSubmitTransaction(tx),
+        timeout,
+        'signAndSubmitTransaction',
+        signal
+      );
 
       if (!response) {
         throw new Error('No response');
       }
       return { hash: response };
     } catch (error: any) {
-      this.emit('error', new WalletSignAndSubmitMessageError(error));
-      throw error;
+      const walletError = toWalletError(error, WalletSignAndSubmitMessageError);
+      this.emit('error', walletError);
+      throw walletError;
     }
   }
 
-  async signMessage(msgPayload: SignMessagePayload): Promise<SignMessageResponse> {
+  async signMessage(
+    msgPayload: SignMessagePayload,
+    options?: AdapterCallOptions
+  ): Promise<SignMessageResponse> {
     try {
       const wallet = this._wallet;
       const provider = this._provider || window.martian;
@@ -264,20 +338,33 @@ export class MartianWalletAdapter extends BaseWalletAdapter {
       if (typeof msgPayload !== 'object' || !msgPayload.nonce) {
         throw new WalletSignMessageError('Invalid signMessage Payload');
       }
-      const response = await provider?.signMessage(msgPayload);
+      const { timeout = this._timeout, signal } = options || {};
+      const response = await withTimeout(
+        provider.signMessage(msgPayload),
+        timeout,
+        'signMessage',
+        signal
+      );
       if (response) {
         return response;
       } else {
         throw new Error('Sign Message failed');
       }
     } catch (error: any) {
-      const errMsg = error.message;
-      this.emit('error', new WalletSignMessageError(errMsg));
-      throw error;
+      const walletError = toWalletError(error, WalletSignMessageError);
+      this.emit('error', walletError);
+      throw walletError;
     }
   }
 
-  async onAccountChange(): Promise<void> {
+  async waitForTransaction(
+    hash: Types.HexEncodedBytes,
+    options?: WaitForTransactionOptions
+  ): Promise<TransactionReceipt> {
+    return waitForAptosTransaction(this._api || getAptosNodeUrl(this._network), hash, options);
+  }
+
+  async onAccountChange(): Promise<() => void> {
     try {
       const wallet = this._wallet;
       const provider = this._provider || window.martian;
@@ -289,9 +376,13 @@ export class MartianWalletAdapter extends BaseWalletAdapter {
           address: newAccount,
           publicKey
         };
-        this.emit('accountChange', newAccount);
+        this.emitAccountEvent('accountChange');
       };
-      await provider?.onAccountChange(handleChangeAccount);
+      return await this.subscribeToProvider('accountChange', (isActive) =>
+        provider.onAccountChange((newAccount) => {
+          if (isActive()) handleChangeAccount(newAccount);
+        })
+      );
     } catch (error: any) {
       const errMsg = error.message;
       this.emit('error', new WalletAccountChangeError(errMsg));
@@ -299,16 +390,20 @@ export class MartianWalletAdapter extends BaseWalletAdapter {
     }
   }
 
-  async onNetworkChange(): Promise<void> {
+  async onNetworkChange(): Promise<() => void> {
     try {
       const wallet = this._wallet;
       const provider = this._provider || window.martian;
       if (!wallet || !provider) throw new WalletNotConnectedError();
       const handleNetworkChange = async (newNetwork: WalletAdapterNetwork) => {
         this._network = newNetwork;
-        this.emit('networkChange', this._network);
+        this.emitNetworkChange();
       };
-      await provider?.onNetworkChange(handleNetworkChange);
+      return await this.subscribeToProvider('networkChange', (isActive) =>
+        provider.onNetworkChange((newNetwork: WalletAdapterNetwork) => {
+          if (isActive()) handleNetworkChange(newNetwork);
+        })
+      );
     } catch (error: any) {
       const errMsg = error.message;
       this.emit('error', new WalletNetworkChangeError(errMsg));
@@ -1,6 +1,7 @@
 import { Types } from 'aptos';
 import {
   WalletAccountChangeError,
+  WalletConnectionError,
   WalletDisconnectionError,
   WalletGetNetworkError,
   WalletNetworkChangeError,
@@ -12,15 +13,26 @@ import {
 } from '../WalletProviders/errors';
 import {
   AccountKeys,
+  AdapterCallOptions,
   BaseWalletAdapter,
+  DetectionOptions,
   NetworkInfo,
   scopePollingDetectionStrategy,
   SignMessagePayload,
   SignMessageResponse,
+  TransactionReceipt,
+  WaitForTransactionOptions,
+  WalletAdapterFeatures,
   WalletAdapterNetwork,
+  WalletConnectionState,
   WalletName,
   WalletReadyState
 } from './BaseAdapter';
+import { validateTransactionPayload } from '../utilities/payloadValidation';
+import { waitForAptosTransaction } from '../utilities/waitForTransaction';
+import { getAptosNodeUrl } from '../config/aptosConstants';
+import { withTimeout } from '../utilities/util';
+import { toWalletError } from '../utilities/walletErrors';
 
 interface IApotsErrorResult {
   code: number;
@@ -59,6 +71,7 @@ export interface AptosWalletAdapterConfig {
   provider?: IAptosWallet;
   // network?: WalletAdapterNetwork;
   timeout?: number;
+  detection?: DetectionOptions;
 }
 
 export class AptosWalletAdapter extends BaseWalletAdapter {
@@ -69,6 +82,17 @@ export class AptosWalletAdapter extends BaseWalletAdapter {
 
   icon = 'https://raw.githubusercontent.com/hippospace/aptos-wallet-adapter/main/logos/petra.png';
 
+  features: WalletAdapterFeatures = {
+    signTransaction: true,
+    signAndSubmitTransaction: true,
+    signMessage: true,
+    disconnect: true,
+    accountChange: true,
+    networkChange: true,
+    switchNetwork: false,
+    multisig: false
+  };
+
   protected _provider: IAptosWallet | undefined;
 
   protected _network: WalletAdapterNetwork;
@@ -84,32 +108,42 @@ export class AptosWalletAdapter extends BaseWalletAdapter {
       ? WalletReadyState.Unsupported
       : WalletReadyState.NotDetected;
 
-  protected _connecting: boolean;
-
   protected _wallet: any | null;
 
   constructor({
     // provider,
     // network = WalletAdapterNetwork.Testnet,
-    timeout = 10000
+    timeout = 10000,
+    detection
   }: AptosWalletAdapterConfig = {}) {
     super();
 
     this._provider = typeof window !== 'undefined' ? window.aptos : undefined;
     this._network = undefined;
     this._timeout = timeout;
-    this._connecting = false;
     this._wallet = null;
 
     if (typeof window !== 'undefined' && this._readyState !== WalletReadyState.Unsupported) {
-      scopePollingDetectionStrategy(() => {
-        if (window.aptos) {
-          this._readyState = WalletReadyState.Installed;
-          this.emit('readyStateChange', this._readyState);
-          return true;
-        }
-        return false;
-      });
+      this.startDetection(() =>
+        scopePollingDetectionStrategy(
+          () => {
+            if (window.aptos) {
+              this._readyState = WalletReadyState.Installed;
+              this.emit('readyStateChange', this._readyState);
+              return true;
+            }
+            return false;
+          },
+          {
+            ...detection,
+            onDeadline: () => {
+              this._readyState = WalletReadyState.NotDetected;
+              this.emit('readyStateChange', this._readyState);
+              detection?.onDeadline?.();
+            }
+          }
+        )
+      );
     }
   }
 
@@ -129,21 +163,16 @@ export class AptosWalletAdapter extends BaseWalletAdapter {
     };
   }
 
-  get connecting(): boolean {
-    return this._connecting;
-  }
-
-  get connected(): boolean {
-    return !!this._wallet?.isConnected;
-  }
-
   get readyState(): WalletReadyState {
     return this._readyState;
   }
 
-  async connect(): Promise<void> {
+  async connect(options?: AdapterCallOptions): Promise<void> {
+    const { timeout = this._timeout, signal } = options || {};
+    if (this.connected) return;
+    this.assertIdle('connect');
+    this.transition(WalletConnectionState.Connecting);
     try {
-      if (this.connected || this.connecting) return;
       if (
         !(
           this._readyState === WalletReadyState.Loadable ||
@@ -151,18 +180,21 @@ export class AptosWalletAdapter extends BaseWalletAdapter {
         )
       )
         throw new WalletNotReadyError();
-      this._connecting = true;
 
       const provider = this._provider || window.aptos;
-      const response = await provider?.connect();
+      const response = await withTimeout(provider?.connect(), timeout, 'connect', signal);
+      if (!response?.address) {
+        throw new WalletNotConnectedError('No account');
+      }
+
       this._wallet = {
-        address: response?.address,
-        publicKey: response?.publicKey,
+        address: response.address,
+        publicKey: response.publicKey,
         isConnected: true
       };
 
       try {
-        const name = await provider?.network();
+        const name = await withTimeout(provider?.network(), timeout, 'network', signal);
         const chainId = null;
         const api = null;
 
@@ -170,34 +202,39 @@ export class AptosWalletAdapter extends BaseWalletAdapter {
         this._chainId = chainId;
         this._api = api;
       } catch (error: any) {
-        const errMsg = error.message;
-        this.emit('error', new WalletGetNetworkError(errMsg));
-        throw error;
+        // Emitted once, by the outer catch
+        throw toWalletError(error, WalletGetNetworkError);
       }
 
-      this.emit('connect', this._wallet.publicKey);
+      this.transition(WalletConnectionState.Connected);
+      this.emitAccountEvent('connect');
     } catch (error: any) {
-      this.emit('error', error);
-      throw error;
-    } finally {
-      this._connecting = false;
+      const walletError = toWalletError(error, WalletConnectionError);
+      this._wallet = null;
+      this.transition(WalletConnectionState.Error, walletError);
+      this.emit('error', walletError);
+      throw walletError;
     }
   }
 
   async disconnect(): Promise<void> {
+    this.assertIdle('disconnect');
     const wallet = this._wallet;
     const provider = this._provider || window.aptos;
     if (wallet) {
+      this.transition(WalletConnectionState.Disconnecting);
       this._wallet = null;
+      this.removeProviderSubscriptions();
 
       try {
-        await provider?.disconnect();
+        await withTimeout(provider?.disconnect(), this._timeout, 'disconnect');
       } catch (error: any) {
         this.emit('error', new WalletDisconnectionError(error?.message, error));
       }
     }
 
-    this.emit('disconnect');
+    this.transition(WalletConnectionState.Disconnected);
+    this.emitDisconnect();
   }
 
   async signTransaction(transaction: Types.TransactionPayload, options?: any): Promise<Uint8Array> {
@@ -205,16 +242,24 @@ export class AptosWalletAdapter extends BaseWalletAdapter {
       const wallet = this._wallet;
       const provider = this._provider || window.aptos;
       if (!wallet || !provider) throw new WalletNotConnectedError();
-
-      const response = await provider.signTransaction(transaction, options);
+      const payload = validateTransactionPayload(transaction);
+
+      const { timeout = this._timeout, signal, ...txOptions } = options || {};
+      const response = await withTimeout(
+        provider.signTransaction(payload, txOptions),
+        timeout,
+        'signTransaction',
+        signal
+      );
+      // Petra resolves failures instead of rejecting, thrown as is so `toWalletError` sees the code
       if ((response as IApotsErrorResult).code) {
-        throw new Error((response as IApotsErrorResult).message);
+        throw response;
       }
       return response as Uint8Array;
     } catch (error: any) {
-      const errMsg = error.message;
-      this.emit('error', new WalletSignTransactionError(errMsg));
-      throw error;
+      const walletError = toWalletError(error, WalletSignTransactionError);
+      this.emit('error', walletError);
+      throw walletError;
     }
   }
 
@@ -226,20 +271,30 @@ export class AptosWalletAdapter extends BaseWalletAdapter {
       const wallet = this._wallet;
       const provider = this._provider || window.aptos;
       if (!wallet || !provider) throw new WalletNotConnectedError();
-
-      const response = await provider.signAndSubmitTransaction(transaction, options);
+      const payload = validateTransactionPayload(transaction);
+
+      const { timeout = this._timeout, signal, ...txOptions } = options || {};
+      const response = await withTimeout(
+        provider.signAndSubmitTransaction(payload, txOptions),
+        timeout,
+        'signAndSubmitTransaction',
+        signal
+      );
       if ((response as IApotsErrorResult).code) {
-        throw new Error((response as IApotsErrorResult).message);
+        throw response;
       }
       return response as { hash: Types.HexEncodedBytes };
     } catch (error: any) {
-      const errMsg = error.message;
-      this.emit('error', new WalletSignAndSubmitMessageError(errMsg));
-      throw error;
+      const walletError = toWalletError(error, WalletSignAndSubmitMessageError);
+      this.emit('error', walletError);
+      throw walletError;
     }
   }
 
-  async signMessage(msgPayload: SignMessagePayload): Promise<SignMessageResponse> {
+  async signMessage(
+    msgPayload: SignMessagePayload,
+    options?: AdapterCallOptions
+  ): Promise<SignMessageResponse> {
     try {
       const wallet = this._wallet;
       const provider = this._provider || window.aptos;
@@ -247,20 +302,33 @@ export class AptosWalletAdapter extends BaseWalletAdapter {
       if (typeof msgPayload !== 'object' || !msgPayload.nonce) {
         throw new WalletSignMessageError('Invalid signMessage Payload');
       }
-      const response = await provider?.signMessage(msgPayload);
+      const { timeout = this._timeout, signal } = options || {};
+      const response = await withTimeout(
+        provider.signMessage(msgPayload),
+        timeout,
+        'signMessage',
+        signal
+      );
       if (response) {
         return response;
       } else {
         throw new Error('Sign Message failed');
       }
     } catch (error: any) {
-      const errMsg = error.message;
-      this.emit('error', new WalletSignMessageError(errMsg));
-      throw error;
+      const walletError = toWalletError(error, WalletSignMessageError);
+      this.emit('error', walletError);
+      throw walletError;
     }
   }
 
-  async onAccountChange(): Promise<void> {
+  async waitForTransaction(
+    hash: Types.HexEncodedBytes,
+    options?: WaitForTransactionOptions
+  ): Promise<TransactionReceipt> {
+    return waitForAptosTransaction(this._api || getAptosNodeUrl(this._network), hash, options);
+  }
+
+  async onAccountChange(): Promise<() => void> {
     try {
       const wallet = this._wallet;
       const provider = this._provider || window.aptos;
@@ -282,9 +350,13 @@ export class AptosWalletAdapter extends BaseWalletAdapter {
             publicKey: response?.publicKey || this._wallet?.publicKey
           };
         }
-        this.emit('accountChange', newAccount.publicKey);
+        this.emitAccountEvent('accountChange');
       };
-      await provider?.onAccountChange(handleAccountChange);
+      return await this.subscribeToProvider('accountChange', (isActive) =>
+        provider.onAccountChange((newAccount) => {
+          if (isActive()) handleAccountChange(newAccount);
+        })
+      );
     } catch (error: any) {
       const errMsg = error.message;
       this.emit('error', new WalletAccountChangeError(errMsg));
@@ -292,16 +364,20 @@ export class AptosWalletAdapter extends BaseWalletAdapter {
     }
   }
 
-  async onNetworkChange(): Promise<void> {
+  async onNetworkChange(): Promise<() => void> {
     try {
       const wallet = this._wallet;
       const provider = this._provider || window.aptos;
       if (!wallet || !provider) throw new WalletNotConnectedError();
       const handleNetworkChange = async (newNetwork: { networkName: WalletAdapterNetwork }) => {
         this._network = newNetwork.networkName;
-        this.emit('networkChange', this._network);
+        this.emitNetworkChange();
       };
-      await provider?.onNetworkChange(handleNetworkChange);
+      return await this.subscribeToProvider('networkChange', (isActive) =>
+        provider.onNetworkChange((newNetwork: { networkName: WalletAdapterNetwork }) => {
+          if (isActive()) handleNetworkChange(newNetwork);
+        })
+      );
     } catch (error: any) {
       const errMsg = error.message;
       this.emit('error', new WalletNetworkChangeError(errMsg));
@@ -1,6 +1,7 @@
 import { MaybeHexString, Types } from 'aptos';
 import {
   WalletAccountChangeError,
+  WalletConnectionError,
   WalletDisconnectionError,
   WalletGetNetworkError,
   WalletNetworkChangeError,
@@ -12,15 +13,26 @@ import {
 } from '../WalletProviders/errors';
 import {
   AccountKeys,
+  AdapterCallOptions,
   BaseWalletAdapter,
+  DetectionOptions,
   NetworkInfo,
   scopePollingDetectionStrategy,
   SignMessagePayload,
   SignMessageResponse,
+  TransactionReceipt,
+  WaitForTransactionOptions,
+  WalletAdapterFeatures,
   WalletAdapterNetwork,
+  WalletConnectionState,
   WalletName,
   WalletReadyState
 } from './BaseAdapter';
+import { validateTransactionPayload } from '../utilities/payloadValidation';
+import { waitForAptosTransaction } from '../utilities/waitForTransaction';
+import { getAptosNodeUrl } from '../config/aptosConstants';
+import { withTimeout } from '../utilities/util';
+import { toWalletError } from '../utilities/walletErrors';
 
 interface ConnectPontemAccount {
   address: MaybeHexString;
@@ -73,6 +85,7 @@ export interface PontemWalletAdapterConfig {
   provider?: IPontemWallet;
   // network?: WalletAdapterNetwork;
   timeout?: number;
+  detection?: DetectionOptions;
 }
 
 export class PontemWalletAdapter extends BaseWalletAdapter {
@@ -83,6 +96,17 @@ export class PontemWalletAdapter extends BaseWalletAdapter {
   icon =
     'https://www.gitbook.com/cdn-cgi/image/width=20,height=20,fit=contain,dpr=2,format=auto/https%3A%2F%2F736486047-files.gitbook.io%2F~%2Ffiles%2Fv0%2Fb%2Fgitbook-legacy-files%2Fo%2Fspaces%252F-MVVJKmKQGx983dZy_jr%252Favatar-1619180126965.png%3Fgeneration%3D1619180127194239%26alt%3Dmedia';
 
+  features: WalletAdapterFeatures = {
+    signTransaction: true,
+    signAndSubmitTransaction: true,
+    signMessage: true,
+    disconnect: true,
+    accountChange: true,
+    networkChange: true,
+    switchNetwork: false,
+    multisig: false
+  };
+
   protected _provider: IPontemWallet | undefined;
 
   protected _network: WalletAdapterNetwork;
@@ -98,32 +122,42 @@ export class PontemWalletAdapter extends BaseWalletAdapter {
       ? WalletReadyState.Unsupported
       : WalletReadyState.NotDetected;
 
-  protected _connecting: boolean;
-
   protected _wallet: PontemAccount | null;
 
   constructor({
     // provider,
     // network = WalletAdapterNetwork.Testnet,
-    timeout = 10000
+    timeout = 10000,
+    detection
   }: PontemWalletAdapterConfig = {}) {
     super();
 
     this._provider = typeof window !== 'undefined' ? window.pontem : undefined;
     this._network = undefined;
     this._timeout = timeout;
-    this._connecting = false;
     this._wallet = null;
 
     if (typeof window !== 'undefined' && this._readyState !== WalletReadyState.Unsupported) {
-      scopePollingDetectionStrategy(() => {
-        if (window.pontem) {
-          this._readyState = WalletReadyState.Installed;
-          this.emit('readyStateChange', this._readyState);
-          return true;
-        }
-        return false;
-      });
+      this.startDetection(() =>
+        scopePollingDetectionStrategy(
+          () => {
+            if (window.pontem) {
+              this._readyState = WalletReadyState.Installed;
+              this.emit('readyStateChange', this._readyState);
+              return true;
+            }
+            return false;
+          },
+          {
+            ...detection,
+            onDeadline: () => {
+              this._readyState = WalletReadyState.NotDetected;
+              this.emit('readyStateChange', this._readyState);
+              detection?.onDeadline?.();
+            }
+          }
+        )
+      );
     }
   }
 
@@ -143,21 +177,16 @@ export class PontemWalletAdapter extends BaseWalletAdapter {
     };
   }
 
-  get connecting(): boolean {
-    return this._connecting;
-  }
-
-  get connected(): boolean {
-    return !!this._wallet?.isConnected;
-  }
-
   get readyState(): WalletReadyState {
     return this._readyState;
   }
 
-  async connect(): Promise<void> {
+  async connect(options?: AdapterCallOptions): Promise<void> {
+    const { timeout = this._timeout, signal } = options || {};
+    if (this.connected) return;
+    this.assertIdle('connect');
+    this.transition(WalletConnectionState.Connecting);
     try {
-      if (this.connected || this.connecting) return;
       if (
         !(
           this._readyState === WalletReadyState.Loadable ||
@@ -165,14 +194,18 @@ export class PontemWalletAdapter extends BaseWalletAdapter {
         )
       )
         throw new WalletNotReadyError();
-      this._connecting = true;
 
       const provider = this._provider || window.pontem;
-      const isConnected = await provider?.isConnected();
+      const isConnected = await withTimeout(
+        provider?.isConnected(),
+        timeout,
+        'isConnected',
+        signal
+      );
       if (isConnected) {
-        await provider?.disconnect();
+        await withTimeout(provider?.disconnect(), timeout, 'disconnect', signal);
       }
-      const response = await provider?.connect();
+      const response = await withTimeout(provider?.connect(), timeout, 'connect', signal);
 
       if (!response) {
         throw new WalletNotConnectedError('No connect response');
@@ -180,48 +213,55 @@ export class PontemWalletAdapter extends BaseWalletAdapter {
 
       const walletAccount = response.address;
       const publicKey = response.publicKey;
-      if (walletAccount) {
-        this._wallet = {
-          address: walletAccount,
-          publicKey,
-          isConnected: true
-        };
+      if (!walletAccount) {
+        throw new WalletNotConnectedError('No account');
+      }
 
-        try {
-          const networkInfo = await provider?.network();
-          this._network = networkInfo.name;
-          this._chainId = networkInfo.chainId;
-          this._api = networkInfo.api;
-        } catch (error: any) {
-          const errMsg = error.message;
-          this.emit('error', new WalletGetNetworkError(errMsg));
-          throw error;
-        }
+      this._wallet = {
+        address: walletAccount,
+        publicKey,
+        isConnected: true
+      };
+
+      try {
+        const networkInfo = await withTimeout(provider?.network(), timeout, 'network', signal);
+        this._network = networkInfo.name;
+        this._chainId = networkInfo.chainId;
+        this._api = networkInfo.api;
+      } catch (error: any) {
+        // Emitted once, by the outer catch
+        throw toWalletError(error, WalletGetNetworkError);
       }
 
-      this.emit('connect', this._wallet?.address || '');
+      this.transition(WalletConnectionState.Connected);
+      this.emitAccountEvent('connect');
     } catch (error: any) {
-      this.emit('error', new Error('User has rejected the connection'));
-      throw error;
-    } finally {
-      this._connecting = false;
+      const walletError = toWalletError(error, WalletConnectionError);
+      this._wallet = null;
+      this.transition(WalletConnectionState.Error, walletError);
+      this.emit('error', walletError);
+      throw walletError;
     }
   }
 
   async disconnect(): Promise<void> {
+    this.assertIdle('disconnect');
     const wallet = this._wallet;
     const provider = this._provider || window.pontem;
     if (wallet) {
+      this.transition(WalletConnectionState.Disconnecting);
       this._wallet = null;
+      this.removeProviderSubscriptions();
 
       try {
-        await provider?.disconnect();
+        await withTimeout(provider?.disconnect(), this._timeout, 'disconnect');
       } catch (error: any) {
         this.emit('error', new WalletDisconnectionError(error?.message, error));
       }
     }
 
-    this.emit('disconnect');
+    this.transition(WalletConnectionState.Disconnected);
+    this.emitDisconnect();
   }
 
   async signTransaction(
@@ -232,12 +272,20 @@ export class PontemWalletAdapter extends BaseWalletAdapter {
       const wallet = this._wallet;
       const provider = this._provider || window.pontem;
       if (!wallet || !provider) throw new WalletNotConnectedError();
-      const response = await provider?.signTransaction(transactionPyld, options);
+      const payload = validateTransactionPayload(transactionPyld);
+      const { timeout = this._timeout, signal, ...txOptions } = options || {};
+      const response = await withTimeout(
+        provider.signTransaction(payload, txOptions),
+        timeout,
+        'signTransaction',
+        signal
+      );
 
       return response as Uint8Array;
     } catch (error: any) {
-      this.emit('error', new WalletSignTransactionError(error));
-      throw error;
+      const walletError = toWalletError(error, WalletSignTransactionError);
+      this.emit('error', walletError);
+      throw walletError;
     }
   }
 
@@ -249,59 +297,91 @@ export class PontemWalletAdapter extends BaseWalletAdapter {
       const wallet = this._wallet;
       const provider = this._provider || window.pontem;
       if (!wallet || !provider) throw new WalletNotConnectedError();
-      const response = await provider?.signAndSubmit(transactionPyld, options);
+      const payload = validateTransactionPayload(transactionPyld);
+      const { timeout = this._timeout, signal, ...txOptions } = options || {};
+      const response = await withTimeout(
+        provider.signAndSubmit(payload, txOptions),
+        timeout,
+        'signAndSubmitTransaction',
+        signal
+      );
 
       if (!response || !response.success) {
         throw new Error('No response');
       }
       return { hash: response.result.hash };
     } catch (error: any) {
-      this.emit('error', new WalletSignAndSubmitMessageError(error.message));
-      throw error;
+      const walletError = toWalletError(error, WalletSignAndSubmitMessageError);
+      this.emit('error', walletError);
+      throw walletError;
     }
   }
 
-  async signMessage(messagePayload: SignMessagePayload): Promise<SignMessageResponse> {
+  async signMessage(
+    messagePayload: SignMessagePayload,
+    options?: AdapterCallOptions
+  ): Promise<SignMessageResponse> {
     try {
       const wallet = this._wallet;
       const provider = this._provider || window.pontem;
       if (!wallet || !provider) throw new WalletNotConnectedError();
 
-      const response = await provider?.signMessage(messagePayload);
+      const { timeout = this._timeout, signal } = options || {};
+      const response = await withTimeout(
+        provider.signMessage(messagePayload),
+        timeout,
+        'signMessage',
+        signal
+      );
       if (response.success) {
         return response.result;
       } else {
         throw new Error('Sign Message failed');
       }
     } catch (error: any) {
-      const errMsg = error.message;
-      this.emit('error', new WalletSignMessageError(errMsg));
-      throw error;
+      const walletError = toWalletError(error, WalletSignMessageError);
+      this.emit('error', walletError);
+      throw walletError;
     }
   }
 
-  async onAccountChange(): Promise<void> {
+  async waitForTransaction(
+    hash: Types.HexEncodedBytes,
+    options?: WaitForTransactionOptions
+  ): Promise<TransactionReceipt> {
+    return waitForAptosTransaction(this._api || getAptosNodeUrl(this._network), hash, options);
+  }
+
+  async onAccountChange(): Promise<() => void> {
     try {
       const wallet = this._wallet;
       const provider = this._provider || window.pontem;
       if (!wallet || !provider) throw new WalletNotConnectedError();
       const handleAccountChange = async (newAccount: string | undefined) => {
-        // disconnect wallet if newAccount is undefined
-        if (newAccount === undefined) {
-          if (this.connected) {
-            await provider?.disconnect();
+        try {
+          // Pontem reports no account once it is locked, which ends the session
+          if (newAccount === undefined) {
+            if (this.connected) {
+              await this.disconnect();
+            }
+            return;
           }
-          return;
+          const newPublicKey = await provider?.publicKey();
+          this._wallet = {
+            ...this._wallet,
+            address: newAccount,
+            publicKey: newPublicKey
+          };
+          this.emitAccountEvent('accountChange');
+        } catch (error: any) {
+          this.emit('error', new WalletAccountChangeError(error?.message, error));
         }
-        const newPublicKey = await provider?.publicKey();
-        this._wallet = {
-          ...this._wallet,
-          address: newAccount,
-          publicKey: newPublicKey
-        };
-        this.emit('accountChange', newAccount);
       };
-      await provider?.onAccountChange(handleAccountChange);
+      return await this.subscribeToProvider('accountChange', (isActive) =>
+        provider.onAccountChange((newAccount) => {
+          if (isActive()) handleAccountChange(newAccount);
+        })
+      );
     } catch (error: any) {
       const errMsg = error.message;
       this.emit('error', new WalletAccountChangeError(errMsg));
@@ -309,7 +389,7 @@ export class PontemWalletAdapter extends BaseWalletAdapter {
     }
   }
 
-  async onNetworkChange(): Promise<void> {
+  async onNetworkChange(): Promise<() => void> {
     try {
       const wallet = this._wallet;
       const provider = this._provider || window.pontem;
@@ -318,9 +398,13 @@ export class PontemWalletAdapter extends BaseWalletAdapter {
         this._network = network.name;
         this._api = network.api;
         this._chainId = network.chainId;
-        this.emit('networkChange', this._network);
+        this.emitNetworkChange();
       };
-      await provider?.onNetworkChange(handleNetworkChange);
+      return await this.subscribeToProvider('networkChange', (isActive) =>
+        provider.onNetworkChange((newNetwork) => {
+          if (isActive()) handleNetworkChange(newNetwork);
+        })
+      );
     } catch (error: any) {
       const errMsg = error.message;
       this.emit('error', new WalletNetworkChangeError(errMsg));
@@ -1,30 +1,55 @@
 import { MaybeHexString, Types } from 'aptos';
 import {
+  WalletAbortedError,
+  WalletAcceptTokenError,
   WalletAccountChangeError,
+  WalletConfigError,
+  WalletConnectionError,
   WalletDisconnectionError,
   WalletGetNetworkError,
   WalletNetworkChangeError,
   WalletNotConnectedError,
   WalletNotReadyError,
+  WalletNotSupportedError,
+  WalletPayloadError,
+  WalletPublicKeyError,
   WalletSignAndSubmitMessageError,
   WalletSignMessageError,
-  WalletSignTransactionError
+  WalletSignTransactionError,
+  WalletSimulationError
 } from '../WalletProviders/errors';
 import {
   AccountKeys,
+  AdapterCallOptions,
   BaseWalletAdapter,
+  DetectionOptions,
   NetworkInfo,
   scopePollingDetectionStrategy,
   SignMessagePayload,
   SignMessageResponse,
+  TransactionReceipt,
+  WaitForTransactionOptions,
+  WalletAdapterFeatures,
   WalletAdapterNetwork,
+  WalletConnectionState,
   WalletName,
   WalletReadyState
 } from './BaseAdapter';
-import { providers, utils, bcs } from '@starcoin/starcoin'
-import { hexlify } from '@ethersproject/bytes'
-import BigNumber from 'bignumber.js'
-import { isConstructorDeclaration } from 'typescript';
+import {
+  getStarcoinChainId,
+  getStarcoinNetworkName,
+  parseStarcoinChainId,
+  STARCOIN_NODE_URLS
+} from '../config/starcoinConstants';
+import { normalizeFunctionId, validateTransactionPayload } from '../utilities/payloadValidation';
+import { isTokenAmount, parseTokenAmount } from '../utilities/tokenAmount';
+import { pollForResult } from '../utilities/waitForTransaction';
+import { withTimeout } from '../utilities/util';
+import { toWalletError } from '../utilities/walletErrors';
+import { StarcoinReadClient } from '../utilities/starcoinReadClient';
+import { bcs, encoding, providers, starcoin_types, utils } from '@starcoin/starcoin';
+import BigNumber from 'bignumber.js';
+import { hexlify } from '@ethersproject/bytes';
 
 interface ConnectStarcoinAccount {
   address: MaybeHexString;
@@ -63,6 +88,10 @@ interface IStarcoinWallet {
   network(): Promise<NetworkInfo>;
   onAccountChange(listener: (address: string | undefined) => void): Promise<void>;
   onNetworkChange(listener: (network: NetworkInfo) => void): Promise<void>;
+  request(args: { method: string; params?: any }): Promise<any>;
+  on(event: string, listener: (...args: any[]) => void): void;
+  removeListener(event: string, listener: (...args: any[]) => void): void;
+  networkVersion?: string;
 }
 
 interface StarcoinWindow extends Window {
@@ -73,10 +102,57 @@ declare const window: StarcoinWindow;
 
 export const StarcoinWalletName = 'Starcoin' as WalletName<'Starcoin'>;
 
+const STARCOIN_MESSAGE_PREFIX = 'STARCOIN';
+
+// Mirrors the Aptos wallets' message layout, only including the fields the dapp asked for
+function buildFullMessage(
+  msgPayload: SignMessagePayload,
+  context: { address: string; application: string; chainId: number }
+): string {
+  const lines = [STARCOIN_MESSAGE_PREFIX];
+  if (msgPayload.address) lines.push(`address: ${context.address}`);
+  if (msgPayload.application) lines.push(`application: ${context.application}`);
+  if (msgPayload.chainId) lines.push(`chainId: ${context.chainId}`);
+  lines.push(`message: ${msgPayload.message}`);
+  lines.push(`nonce: ${msgPayload.nonce}`);
+  return lines.join('\n');
+}
+
+// Same headroom starcoin.js applies in `Signer.estimateGas`
+const GAS_BUFFER_MULTIPLIER = 3;
+const DRY_RUN_MAX_GAS_AMOUNT = 40000000;
+const DRY_RUN_EXPIRATION_SECS = 1800;
+
+export interface StarcoinTransactionEstimate {
+  gasUsed: string;
+  maxGasAmount: string; // Suggested `max_gas_amount`, the gas used plus headroom
+  vmStatus: string;
+}
+
+// Tokens a payload needs accepted that are still missing on chain
+export interface StarcoinTokenAcceptance {
+  sender: string[];
+  // Only the recipient can accept these, so the transfer is refused up front
+  recipient: string[];
+}
+
+const TOKEN_TYPE_REGEX = /^0x[0-9a-fA-F]{1,64}::\w+::\w+(<.+>)?$/;
+
+// Position of the payee argument in transfers, their first type argument is the token sent
+const RECIPIENT_ARGUMENT_INDEX: { [functionId: string]: number } = {
+  '0x1::TransferScripts::peer_to_peer': 0,
+  '0x1::TransferScripts::peer_to_peer_v2': 0
+};
+
 export interface StarcoinWalletAdapterConfig {
   provider?: IStarcoinWallet;
   network?: WalletAdapterNetwork;
+  // RPC endpoints keyed by chain id, these take precedence over the public seed nodes
+  nodeUrls?: { [chainId: string]: string };
   timeout?: number;
+  detection?: DetectionOptions;
+  // Send `0x1::Account::accept_token<T>` for missing tokens before each transaction
+  autoAcceptToken?: boolean;
 }
 
 export class StarcoinWalletAdapter extends BaseWalletAdapter {
@@ -87,6 +163,19 @@ export class StarcoinWalletAdapter extends BaseWalletAdapter {
   icon =
     'https://lh3.googleusercontent.com/f4D8qy1-4es3Tyx_TUeeXM_VrYIqbRvZcFssWKwNZOW7CW595TzOpNX7p84xN7JoMzDxODfa-xOSCLsql0b16VssgA=w128-h128-e365-rj-sc0x00ffffff';
 
+  features: WalletAdapterFeatures = {
+    // StarMask only signs as part of `stc_sendTransaction`, it has no sign-only request
+    signTransaction: false,
+    signAndSubmitTransaction: true,
+    signMessage: true,
+    // StarMask has no disconnect API
+    disconnect: false,
+    accountChange: true,
+    networkChange: true,
+    switchNetwork: false,
+    multisig: false
+  };
+
   protected _provider: IStarcoinWallet | undefined;
 
   protected _network: WalletAdapterNetwork;
@@ -102,40 +191,71 @@ export class StarcoinWalletAdapter extends BaseWalletAdapter {
       ? WalletReadyState.Unsupported
       : WalletReadyState.NotDetected;
 
-  protected _connecting: boolean;
-
   protected _wallet: StarcoinAccount | null;
-  protected _nodeUrlMap: {[key: string]: string};
+
+  protected _nodeUrlMap: { [key: string]: string };
+
+  protected _expectedNetwork: WalletAdapterNetwork | undefined;
+
+  protected _scalingFactors: { [key: string]: Promise<string> };
+
+  protected _readClient: StarcoinReadClient | null;
+
+  protected _locked: boolean;
+
+  protected _autoAcceptToken: boolean;
 
   constructor({
-    // provider,
-    // network = WalletAdapterNetwork.Testnet,
-    timeout = 10000
+    provider,
+    network,
+    nodeUrls = {},
+    timeout = 10000,
+    detection,
+    autoAcceptToken = false
   }: StarcoinWalletAdapterConfig = {}) {
     super();
 
-    this._provider = typeof window !== 'undefined' ? window.starcoin : undefined;
+    this._provider = provider || (typeof window !== 'undefined' ? window.starcoin : undefined);
     this._network = null;
     this._timeout = timeout;
-    this._connecting = false;
     this._wallet = null;
-    this._nodeUrlMap = {
-      '1': 'https://main-seed.starcoin.org',
-      '2': 'https://proxima-seed.starcoin.org',
-      '251': 'https://barnard-seed.starcoin.org',
-      '253': 'https://halley-seed.starcoin.org',
-      '254': 'http://localhost:9850',
+    this._scalingFactors = {};
+    this._readClient = null;
+    this._locked = false;
+    this._autoAcceptToken = autoAcceptToken;
+    this._nodeUrlMap = { ...STARCOIN_NODE_URLS, ...nodeUrls };
+    this._expectedNetwork = network;
+
+    // Until a wallet is connected, reads go to the node of the network the dapp expects
+    const expectedChainId = network && getStarcoinChainId(network);
+    if (expectedChainId !== undefined) {
+      this.setNetwork(expectedChainId);
     }
 
-    if (typeof window !== 'undefined' && this._readyState !== WalletReadyState.Unsupported) {
-      scopePollingDetectionStrategy(() => {
-        if (window.starcoin) {
-          this._readyState = WalletReadyState.Installed;
-          this.emit('readyStateChange', this._readyState);
-          return true;
-        }
-        return false;
-      });
+    if (provider) {
+      this._readyState = WalletReadyState.Installed;
+    } else if (typeof window !== 'undefined' && this._readyState !== WalletReadyState.Unsupported) {
+      this.startDetection(() =>
+        scopePollingDetectionStrategy(
+          () => {
+            if (window.starcoin) {
+              this._readyState = WalletReadyState.Installed;
+              this.emit('readyStateChange', this._readyState);
+              return true;
+            }
+            return false;
+          },
+          {
+            events: ['starcoin#initialized'],
+            ...detection,
+            onDeadline: () => {
+              this._readyState = WalletReadyState.NotDetected;
+              this.emit('readyStateChange', this._readyState);
+              detection?.onDeadline?.();
+            }
+          }
+        )
+      );
     }
   }
 
@@ -155,21 +275,16 @@ export class StarcoinWalletAdapter extends BaseWalletAdapter {
     };
   }
 
-  get connecting(): boolean {
-    return this._connecting;
-  }
-
-  get connected(): boolean {
-    return !!this._wallet?.isConnected;
-  }
-
   get readyState(): WalletReadyState {
     return this._readyState;
   }
 
-  async connect(): Promise<void> {
+  async connect(options?: AdapterCallOptions): Promise<void> {
+    const { timeout = this._timeout, signal } = options || {};
+    if (this.connected) return;
+    this.assertIdle('connect');
+    this.transition(WalletConnectionState.Connecting);
     try {
-      if (this.connected || this.connecting) return;
       if (
         !(
           this._readyState === WalletReadyState.Loadable ||
@@ -177,17 +292,24 @@ export class StarcoinWalletAdapter extends BaseWalletAdapter {
         )
       )
         throw new WalletNotReadyError();
-      this._connecting = true;
 
       const provider = this._provider || window.starcoin;
-      const isConnected = await provider?.isConnected();
+      const isConnected = await withTimeout(
+        provider?.isConnected(),
+        timeout,
+        'isConnected',
+        signal
+      );
 
       if (isConnected) {
         // await provider?._handleDisconnect();
       }
-      const newAccounts = await window.starcoin.request({
-        method: 'stc_requestAccounts',
-      })
+      const newAccounts = await withTimeout<string[]>(
+        provider.request({ method: 'stc_requestAccounts' }),
+        timeout,
+        'connect',
+        signal
+      );
 
       // const response = await provider?.connect();
 
@@ -195,212 +317,630 @@ export class StarcoinWalletAdapter extends BaseWalletAdapter {
         throw new WalletNotConnectedError('No connect response');
       }
 
-      const walletAccount = newAccounts;
-      // const publicKey = response.publicKey;
-      if (walletAccount) {
-        this._wallet = {
-          address: walletAccount,
-          // publicKey,
-          isConnected: true
-        };
+      const walletAccount = newAccounts[0];
+      if (!walletAccount) {
+        throw new WalletNotConnectedError('No account');
+      }
 
-        try {
-          const networkInfo = await window.starcoin.request({
-            method: 'chain.id',
-          })
-          this._network = networkInfo.id;
-          this._chainId = `0x${networkInfo.id.toString(16)}`;
-          // this._api = networkInfo.api;
-        } catch (error: any) {
-          const errMsg = error.message;
-          this.emit('error', new WalletGetNetworkError(errMsg));
-          throw error;
+      this._wallet = {
+        address: walletAccount,
+        isConnected: true
+      };
+
+      try {
+        const networkInfo = await withTimeout<{ id: number }>(
+          provider.request({ method: 'chain.id' }),
+          timeout,
+          'chain.id',
+          signal
+        );
+        this.setNetwork(networkInfo.id);
+        if (this._expectedNetwork && this._network !== this._expectedNetwork) {
+          this.emit(
+            'error',
+            new WalletConfigError(
+              `Wallet is on ${this._network || this._chainId}, expected ${this._expectedNetwork}`
+            )
+          );
         }
+      } catch (error: any) {
+        // Emitted once, by the outer catch
+        throw toWalletError(error, WalletGetNetworkError);
       }
 
-      this.emit('connect', this._wallet?.address || '');
+      this._wallet = {
+        ...this._wallet,
+        // The key lookup may fall back to a node read, the connect timeout and signal cover it
+        ...(await withTimeout(this.fetchAccountKeys(walletAccount), timeout, 'connect', signal))
+      };
+      this._locked = false;
+
+      this.transition(WalletConnectionState.Connected);
+      this.emitAccountEvent('connect');
     } catch (error: any) {
-      this.emit('error', new Error('User has rejected the connection'));
-      throw error;
-    } finally {
-      this._connecting = false;
+      const walletError = toWalletError(error, WalletConnectionError);
+      this._wallet = null;
+      this.transition(WalletConnectionState.Error, walletError);
+      this.emit('error', walletError);
+      throw walletError;
     }
   }
 
+  // Also ends a locked session, which has no wallet but still waits for the unlock
   async disconnect(): Promise<void> {
-    // const wallet = this._wallet;
-    // const provider = this._provider || window.starcoin;
-    // if (wallet) {
-    //   this._wallet = null;
-
-    //   try {
-    //     await provider?.disconnect();
-    //   } catch (error: any) {
-    //     this.emit('error', new WalletDisconnectionError(error?.message, error));
-    //   }
-    // }
-
-    // this.emit('disconnect');
-    throw new Error('No Disconnect');
-  }
+    this.assertIdle('disconnect');
+    if (this._wallet) {
+      this.transition(WalletConnectionState.Disconnecting);
+      this._wallet = null;
+    }
+    this._locked = false;
 
-  async signTransaction(
-    transactionPyld: any,
-    options?: any
-  ): Promise<any> {
+    // StarMask has no disconnect API, so we only detach from the extension's events
     try {
-      // const wallet = this._wallet;
-      // const provider = this._provider || window.starcoin;
-      // if (!wallet || !provider) throw new WalletNotConnectedError();
-      // const response = await provider?.getSigner().signTransaction(transactionPyld, options);
+      this.removeProviderSubscriptions();
+    } catch (error: any) {
+      this.emit('error', new WalletDisconnectionError(error?.message, error));
+    }
+
+    this.transition(WalletConnectionState.Disconnected);
+    this.emitDisconnect();
+  }
+
+  // Restores the session after an unlock, without prompting, if the site is still authorized
+  protected async reconnectSilently(): Promise<void> {
+    const provider = this._provider || window.starcoin;
+    const accounts: string[] = await provider.request({ method: 'stc_accounts' });
+    const address = accounts?.[0];
+    if (!address) return;
+
+    const networkInfo = await provider.request({ method: 'chain.id' });
+    const keys = await this.fetchAccountKeys(address);
+    // An explicit connect may have started while the extension was queried
+    if (this.connected || this.connecting) return;
+    this.setNetwork(networkInfo.id);
+    this._wallet = {
+      address,
+      isConnected: true,
+      ...keys
+    };
+    this._locked = false;
+    this.transition(WalletConnectionState.Connected);
+    this.emitAccountEvent('connect');
+  }
+
+  protected setNetwork(chainId: number | string): void {
+    const id = parseStarcoinChainId(chainId);
+    if (id === undefined) {
+      throw new WalletGetNetworkError(`Unknown Starcoin chain id: ${chainId}`);
+    }
+    this._network = getStarcoinNetworkName(id);
+    this._chainId = id.toString();
+    this._api = this._nodeUrlMap[id.toString()];
+  }
 
-      // return response as Uint8Array;
+  protected getNodeUrl(): string {
+    const provider = this._provider || window.starcoin;
+    const nodeUrl = this._api || this._nodeUrlMap[provider?.networkVersion];
+    if (!nodeUrl) {
+      throw new WalletConfigError(`No node url configured for chain ${this._chainId}`);
+    }
+    return nodeUrl;
+  }
 
+  protected addProviderListener(event: string, listener: (...args: any[]) => void): () => void {
+    const provider = this._provider || window.starcoin;
+    provider?.on(event, listener);
+    return () => provider?.removeListener(event, listener);
+  }
+
+  async signTransaction(): Promise<Uint8Array> {
+    try {
       const wallet = this._wallet;
       const provider = this._provider || window.starcoin;
       if (!wallet || !provider) throw new WalletNotConnectedError();
-
-      const functionId = '0x1::TransferScripts::peer_to_peer_v2';
-      const strTypeArgs = ['0x1::STC::STC'];
-      const toAccount = transactionPyld.arguments[0];
-
-      if (!toAccount) {
-        window.alert('Invalid To: can not be empty!')
-        return false
-      }
-      const sendAmount = parseFloat(transactionPyld.arguments[1]);
-      if (sendAmount <= 0) {
-        // eslint-disable-next-line no-alert
-        window.alert('Invalid sendAmount: should be a number!')
-        return false
-      }
-      const BIG_NUMBER_NANO_STC_MULTIPLIER = new BigNumber('1000000000');
-      const sendAmountSTC = new BigNumber(String(sendAmount), 10);
-      const sendAmountNanoSTC = sendAmountSTC.times(
-        BIG_NUMBER_NANO_STC_MULTIPLIER
-      );
-      const args = [toAccount, sendAmountNanoSTC]
-      const nodeUrl = this._nodeUrlMap[window.starcoin.networkVersion]
-      const scriptFunction = await utils.tx.encodeScriptFunctionByResolve(
-        functionId,
-        strTypeArgs,
-        args,
-        nodeUrl
+      throw new WalletNotSupportedError(
+        `${this.name} does not support signTransaction, StarMask only signs when it submits`
       );
+    } catch (error: any) {
+      const walletError = toWalletError(error, WalletSignTransactionError);
+      this.emit('error', walletError);
+      throw walletError;
+    }
+  }
+
+  async signAndSubmitTransaction(
+    transactionPyld: Types.TransactionPayload,
+    options?: any
+  ): Promise<{ hash: Types.HexEncodedBytes }> {
+    try {
+      return await this.submitTransaction(transactionPyld, options);
+    } catch (error: any) {
+      const walletError = toWalletError(error, WalletSignAndSubmitMessageError);
+      this.emit('error', walletError);
+      throw walletError;
+    }
+  }
 
-      
-      const payloadInHex = (function () {
-        const se = new bcs.BcsSerializer()
-        scriptFunction.serialize(se)
-        console.log('hellu:', hexlify(se.getBytes()))
-        return hexlify(se.getBytes())
-      })()
+  // Leaves the `error` event to the public method that was called
+  protected async submitTransaction(
+    transactionPyld: Types.TransactionPayload,
+    options?: any
+  ): Promise<{ hash: Types.HexEncodedBytes }> {
+    const wallet = this._wallet;
+    const provider = this._provider || window.starcoin;
+    if (!wallet || !provider) throw new WalletNotConnectedError();
+
+    const {
+      simulate,
+      acceptTokens = this._autoAcceptToken,
+      timeout = this._timeout,
+      signal,
+      ...txOptions
+    } = options || {};
+    // Encoding validates the payload, so a malformed one fails before any token is accepted
+    const payloadInHex = await this.encodeScriptFunctionPayload(transactionPyld);
+    const acceptedTokens = acceptTokens
+      ? await this.acceptMissingTokens(transactionPyld, { timeout, signal })
+      : [];
+    try {
       const txParams = {
-        data: payloadInHex,
+        ...txOptions,
+        data: payloadInHex
+      };
+      if (simulate) {
+        // Aborts before the StarMask popup if the transaction would fail on chain
+        const estimate = await this.estimateTransaction(transactionPyld, {
+          timeout,
+          signal
+        }).catch((error: any) => {
+          // Without a public key there is nothing to dry run with, StarMask estimates gas itself
+          if (error instanceof WalletPublicKeyError) return undefined;
+          throw error;
+        });
+        if (!txParams.gasLimit && estimate) {
+          // starcoin.js hexlifies the gas limit, which fails for decimal strings
+          txParams.gasLimit = Number(estimate.maxGasAmount);
+        }
       }
 
-
-      const transactionHash = await new providers.Web3Provider(window.starcoin, 'any') 
-        .getSigner()
-        .sendUncheckedTransaction(txParams)
-  
-      // const response = await provider?.signAndSubmit(transactionPyld, options);
+      const transactionHash = await withTimeout(
+        new providers.Web3Provider(provider, 'any').getSigner().sendUncheckedTransaction(txParams),
+        timeout,
+        'signAndSubmitTransaction',
+        signal
+      );
 
       if (!transactionHash) {
         throw new Error('No response');
       }
-      return transactionHash;
+      return { hash: transactionHash };
     } catch (error: any) {
-      this.emit('error', new WalletSignTransactionError(error));
-      throw error;
+      if (!acceptedTokens.length || error instanceof WalletAbortedError) throw error;
+      throw new WalletAcceptTokenError(
+        `Accepted ${acceptedTokens.join(', ')} but the transaction failed: ${error?.message}`,
+        'transaction',
+        undefined,
+        error
+      );
     }
   }
 
-  async signAndSubmitTransaction(
-    transactionPyld: any,
-    options?: any
-  ): Promise<{ hash: Types.HexEncodedBytes }> {
+  /**
+   * Lists the tokens in a payload's type arguments the sender hasn't accepted yet,
+   * and for plain transfers whether the recipient is able to receive the token.
+   */
+  async checkTokenAcceptance(
+    transactionPyld: Types.TransactionPayload
+  ): Promise<StarcoinTokenAcceptance> {
+    const wallet = this._wallet;
+    if (!wallet) throw new WalletNotConnectedError();
+    const {
+      function: functionId,
+      type_arguments: typeArgs = [],
+      arguments: args = []
+    } = transactionPyld as Types.TransactionPayload_EntryFunctionPayload;
+    if (!functionId) return { sender: [], recipient: [] };
+
+    const client = this.readClient;
+    const sender = await Promise.all(
+      typeArgs
+        .filter((typeArg) => TOKEN_TYPE_REGEX.test(typeArg))
+        .map(async (token) => {
+          if (await client.isTokenAccepted(wallet.address.toString(), token)) return undefined;
+          // Struct type arguments that aren't tokens need no acceptance
+          const tokenInfo = await client.getTokenInfo(token).catch(() => undefined);
+          return tokenInfo && token;
+        })
+    );
+
+    const recipientIndex = RECIPIENT_ARGUMENT_INDEX[normalizeFunctionId(functionId)];
+    const recipientAddress = recipientIndex === undefined ? undefined : args[recipientIndex];
+    const token = typeArgs[0];
+    const recipient =
+      recipientAddress && token && !(await client.canReceiveToken(recipientAddress, token))
+        ? [token]
+        : [];
+    return { sender: sender.filter((item): item is string => !!item), recipient };
+  }
+
+  // Submits `0x1::Account::accept_token<T>` and resolves once it has executed
+  async acceptToken(
+    token: string,
+    options?: WaitForTransactionOptions & AdapterCallOptions
+  ): Promise<TransactionReceipt> {
     try {
-      const wallet = this._wallet;
-      const provider = this._provider || window.starcoin;
-      if (!wallet || !provider) throw new WalletNotConnectedError();
+      return await this.submitAcceptToken(token, options);
+    } catch (error: any) {
+      const walletError = toWalletError(error, WalletSignAndSubmitMessageError);
+      this.emit('error', walletError);
+      throw walletError;
+    }
+  }
+
+  protected async submitAcceptToken(
+    token: string,
+    options?: WaitForTransactionOptions & AdapterCallOptions
+  ): Promise<TransactionReceipt> {
+    const { hash } = await this.submitTransaction(
+      {
+        type: 'entry_function_payload',
+        function: '0x1::Account::accept_token',
+        type_arguments: [token],
+        arguments: []
+      },
+      { acceptTokens: false, timeout: options?.timeout, signal: options?.signal }
+    );
+    const receipt = await this.waitForTransaction(hash, options);
+    if (!receipt.success) {
+      throw new Error(`accept_token failed with ${receipt.vmStatus}`);
+    }
+    return receipt;
+  }
 
-      const functionId = '0x1::TransferScripts::peer_to_peer_v2';
-      const strTypeArgs = ['0x1::STC::STC'];
-      const toAccount = transactionPyld.arguments[0];
-      const sendAmount = parseFloat(transactionPyld.arguments[1]);
-      const BIG_NUMBER_NANO_STC_MULTIPLIER = new BigNumber('1000000000');
-      const sendAmountSTC = new BigNumber(String(sendAmount), 10);
-      const sendAmountNanoSTC = sendAmountSTC.times(
-        BIG_NUMBER_NANO_STC_MULTIPLIER
+  // Accepts the sender's missing tokens one transaction at a time, in payload order
+  protected async acceptMissingTokens(
+    transactionPyld: Types.TransactionPayload,
+    options?: AdapterCallOptions
+  ): Promise<string[]> {
+    let acceptance: StarcoinTokenAcceptance;
+    try {
+      acceptance = await this.checkTokenAcceptance(transactionPyld);
+    } catch (error: any) {
+      throw new WalletAcceptTokenError(
+        `Failed to check accepted tokens: ${error?.message}`,
+        'check',
+        undefined,
+        error
       );
-      const args = [toAccount, sendAmountNanoSTC]
-      const nodeUrl = this._nodeUrlMap[window.starcoin.networkVersion]
-      const scriptFunction = await utils.tx.encodeScriptFunctionByResolve(
-        functionId,
-        strTypeArgs,
-        args,
-        nodeUrl
+    }
+    if (acceptance.recipient.length) {
+      throw new WalletAcceptTokenError(
+        `Recipient has not accepted ${acceptance.recipient[0]}`,
+        'recipient',
+        acceptance.recipient[0]
       );
+    }
 
-      const payloadInHex = (function () {
-        const se = new bcs.BcsSerializer()
-        scriptFunction.serialize(se)
-        return hexlify(se.getBytes())
-      })()
-      const txParams = {
-        data: payloadInHex,
-      }
+    await acceptance.sender.reduce(
+      (previous, token) =>
+        previous.then(() =>
+          this.submitAcceptToken(token, options).then(
+            () => undefined,
+            (error: any) => {
+              if (error instanceof WalletAbortedError) throw error;
+              throw new WalletAcceptTokenError(
+                `Failed to accept ${token}: ${error?.message}`,
+                'accept_token',
+                token,
+                error
+              );
+            }
+          )
+        ),
+      Promise.resolve()
+    );
+    return acceptance.sender;
+  }
 
-      const transactionHash = await new providers.Web3Provider(window.starcoin, 'any') 
-        .getSigner()
-        .sendUncheckedTransaction(txParams)
-  
-      // const response = await provider?.signAndSubmit(transactionPyld, options);
+  /**
+   * Runs the payload through `contract.dry_run_raw` on the configured node.
+   * Rejects with `WalletSimulationError` when the transaction would not execute,
+   * and with `WalletPublicKeyError` when StarMask doesn't share the account's public key.
+   */
+  async estimateTransaction(
+    transactionPyld: Types.TransactionPayload,
+    options?: AdapterCallOptions
+  ): Promise<StarcoinTransactionEstimate> {
+    const wallet = this._wallet;
+    if (!wallet) throw new WalletNotConnectedError();
+    const { timeout = this._timeout, signal } = options || {};
+    const sender = wallet.address.toString();
+    // The key lookup on connect may have failed, so it is asked for once more
+    const publicKey =
+      wallet.publicKey ||
+      (await withTimeout(this.fetchAccountKeys(sender), timeout, 'estimateTransaction', signal))
+        .publicKey;
+    if (!publicKey) {
+      throw new WalletPublicKeyError('A public key is required to dry run transactions');
+    }
 
-      if (!transactionHash) {
-        throw new Error('No response');
+    const rpc = this.getRpcProvider();
+    const [scriptFunction, sequenceNumber, gasUnitPrice, nowSeconds] = await withTimeout(
+      Promise.all([
+        this.encodeScriptFunction(transactionPyld),
+        rpc.getSequenceNumber(sender),
+        rpc.getGasPrice(),
+        rpc.getNowSeconds()
+      ]),
+      timeout,
+      'estimateTransaction',
+      signal
+    );
+    const rawUserTransaction = utils.tx.generateRawUserTransaction(
+      sender,
+      scriptFunction,
+      DRY_RUN_MAX_GAS_AMOUNT,
+      gasUnitPrice,
+      sequenceNumber || 0,
+      nowSeconds + DRY_RUN_EXPIRATION_SECS,
+      Number(this._chainId)
+    );
+    const output = await withTimeout(
+      rpc.dryRunRaw(encoding.bcsEncode(rawUserTransaction), publicKey.toString()),
+      timeout,
+      'estimateTransaction',
+      signal
+    );
+
+    const vmStatus =
+      typeof output.status === 'string' ? output.status : JSON.stringify(output.status);
+    const gasUsed = new BigNumber(output.gas_used.toString());
+    const estimate = {
+      gasUsed: gasUsed.toFixed(),
+      maxGasAmount: gasUsed
+        .times(GAS_BUFFER_MULTIPLIER)
+        .integerValue(BigNumber.ROUND_CEIL)
+        .toFixed(),
+      vmStatus
+    };
+    if (output.status !== 'Executed') {
+      throw new WalletSimulationError(`Transaction simulation failed: ${vmStatus}`, {
+        ...estimate,
+        output
+      });
+    }
+    return estimate;
+  }
+
+  protected async encodeScriptFunctionPayload(
+    transactionPyld: Types.TransactionPayload
+  ): Promise<string> {
+    const scriptFunction = await this.encodeScriptFunction(transactionPyld);
+    const se = new bcs.BcsSerializer();
+    scriptFunction.serialize(se);
+    return hexlify(se.getBytes());
+  }
+
+  protected async encodeScriptFunction(
+    transactionPyld: Types.TransactionPayload
+  ): Promise<starcoin_types.TransactionPayloadVariantScriptFunction> {
+    const entryFunctionPyld = transactionPyld as Types.TransactionPayload_EntryFunctionPayload;
+    const args = await this.resolveTokenAmounts(entryFunctionPyld?.arguments || []);
+    const { function: functionId, type_arguments: typeArgs } = entryFunctionPyld;
+    const { arguments: normalizedArgs } = validateTransactionPayload(
+      { ...entryFunctionPyld, arguments: args },
+      undefined,
+      'starcoin'
+    ) as Types.TransactionPayload_EntryFunctionPayload;
+    if (!functionId) {
+      throw new WalletPayloadError('Invalid payload: function is required', 'function');
+    }
+    const nodeUrl = this.getNodeUrl();
+    return utils.tx.encodeScriptFunctionByResolve(
+      functionId,
+      typeArgs || [],
+      normalizedArgs,
+      nodeUrl
+    );
+  }
+
+  // Replaces `tokenAmount()` arguments with u128 on-chain units, scaled by each token's TokenInfo
+  protected async resolveTokenAmounts(args: any[]): Promise<any[]> {
+    return Promise.all(
+      args.map(async (arg) => {
+        if (!isTokenAmount(arg)) return arg;
+        if (typeof arg.amount === 'bigint') return arg.amount.toString();
+        const scalingFactor = await this.getTokenScalingFactor(arg.token);
+        return parseTokenAmount(arg.amount, scalingFactor, { rounding: arg.rounding });
+      })
+    );
+  }
+
+  async getTokenScalingFactor(tokenType: string): Promise<string> {
+    const nodeUrl = this.getNodeUrl();
+    const cacheKey = `${nodeUrl}|${tokenType}`;
+    // Scaling factors never change, so they outlive the read client's per-block cache
+    if (!this._scalingFactors[cacheKey]) {
+      this._scalingFactors[cacheKey] = this.readClient
+        .getTokenInfo(tokenType)
+        .then(({ scalingFactor }) => scalingFactor)
+        .catch((error) => {
+          delete this._scalingFactors[cacheKey];
+          throw error;
+        });
+    }
+    return this._scalingFactors[cacheKey];
+  }
+
+  // Reads account state from the node of the network the wallet is currently on
+  get readClient(): StarcoinReadClient {
+    if (!this._readClient) {
+      this._readClient = new StarcoinReadClient({ nodeUrl: () => this.getNodeUrl() });
+    }
+    return this._readClient;
+  }
+
+  protected getRpcProvider(): providers.JsonRpcProvider {
+    return new providers.JsonRpcProvider(this.getNodeUrl());
+  }
+
+  protected async getResource(address: string, resourceType: string): Promise<any> {
+    return this.readClient.getResource(address, resourceType);
+  }
+
+  /**
+   * StarMask only hands out the address, so the public key is requested separately.
+   * When the extension can't provide it we fall back to the auth key stored on chain.
+   */
+  protected async fetchAccountKeys(
+    address: string
+  ): Promise<{ publicKey?: string; authKey?: string }> {
+    const provider = this._provider || window.starcoin;
+    try {
+      const publicKey: string | undefined = await provider
+        .request({ method: 'stc_getPublicKey', params: [address] })
+        .catch(() => undefined);
+      if (publicKey) {
+        return { publicKey, authKey: encoding.publicKeyToAuthKey(publicKey) };
       }
-      return { hash: transactionHash };
+
+      const account = await this.getResource(
+        address,
+        '0x00000000000000000000000000000001::Account::Account'
+      );
+      return { authKey: account?.json?.authentication_key || undefined };
     } catch (error: any) {
-      this.emit('error', new WalletSignAndSubmitMessageError(error.message));
-      throw error;
+      this.emit('error', new WalletPublicKeyError(error?.message, error));
+      return {};
     }
   }
 
-  async signMessage(messagePayload: any): Promise<any> {
+  async signMessage(
+    message: string | SignMessagePayload | Uint8Array,
+    options?: AdapterCallOptions
+  ): Promise<SignMessageResponse> {
     try {
-      // const response = await provider?.getSigner().signMessage(messagePayload);
-      throw new Error('Sign Message failed');
+      const wallet = this._wallet;
+      const provider = this._provider || window.starcoin;
+      if (!wallet || !provider) throw new WalletNotConnectedError();
+
+      const address = wallet.address.toString();
+      const application = typeof window !== 'undefined' ? window.location.origin : '';
+      const chainId = Number(this._chainId);
+      let msgPayload: SignMessagePayload;
+      let fullMessage: string;
+      let msgInHex: string;
+      if (message instanceof Uint8Array) {
+        msgInHex = hexlify(message);
+        msgPayload = { message: msgInHex, nonce: '' };
+        fullMessage = msgInHex;
+      } else {
+        if (typeof message === 'string') {
+          msgPayload = { message, nonce: '' };
+          fullMessage = message;
+        } else {
+          if (typeof message !== 'object' || typeof message.message !== 'string') {
+            throw new WalletSignMessageError('Invalid signMessage Payload');
+          }
+          msgPayload = message;
+          fullMessage = buildFullMessage(message, { address, application, chainId });
+        }
+        msgInHex = hexlify(new TextEncoder().encode(fullMessage));
+      }
+
+      const { timeout = this._timeout, signal } = options || {};
+      const signature = await withTimeout<string>(
+        provider.request({ method: 'personal_sign', params: [msgInHex, address] }),
+        timeout,
+        'signMessage',
+        signal
+      );
+      if (!signature) {
+        throw new Error('Sign Message failed');
+      }
+      return {
+        address,
+        application,
+        chainId,
+        fullMessage,
+        message: msgPayload.message,
+        nonce: msgPayload.nonce,
+        prefix: STARCOIN_MESSAGE_PREFIX,
+        signature
+      };
     } catch (error: any) {
-      const errMsg = error.message;
-      this.emit('error', new WalletSignMessageError(errMsg));
-      throw error;
+      const walletError = toWalletError(error, WalletSignMessageError);
+      this.emit('error', walletError);
+      throw walletError;
     }
   }
 
-  async onAccountChange(): Promise<void> {
+  async waitForTransaction(
+    hash: Types.HexEncodedBytes,
+    options?: WaitForTransactionOptions
+  ): Promise<TransactionReceipt> {
+    const rpc = this.getRpcProvider();
+    // `chain.get_transaction_info` stays null while the transaction is still in the txpool
+    const info = await pollForResult(
+      async () => (await rpc.send('chain.get_transaction_info', [hash])) || undefined,
+      options
+    );
+    const events = await rpc.send('chain.get_events_by_txn_hash', [hash, { decode: true }]);
+    return {
+      hash,
+      success: info.status === 'Executed',
+      gasUsed: String(info.gas_used),
+      vmStatus: typeof info.status === 'string' ? info.status : JSON.stringify(info.status),
+      events: (events || []).map((event: any) => ({
+        type: event.type_tag,
+        key: event.event_key,
+        sequenceNumber: String(event.event_seq_number),
+        data: event.decode_event_data || event.data
+      }))
+    };
+  }
+
+  async onAccountChange(): Promise<() => void> {
     try {
       const wallet = this._wallet;
       const provider = this._provider || window.starcoin;
       if (!wallet || !provider) throw new WalletNotConnectedError();
-      const handleAccountChange = async (newAccount: string | undefined) => {
-        // disconnect wallet if newAccount is undefined
-        // if (newAccount === undefined) {
-        //   // if (this.connected) {
-        //   //   await provider?.disconnect();
-        //   // }
-        //   return;
-        // }
-        // const newPublicKey = await provider?.publicKey();
-        this._wallet = {
-          ...this._wallet,
-          address: newAccount,
-          // publicKey: newPublicKey
-        };
-        this.emit('accountChange', newAccount);
+      // Unsubscribed adapters ignore locks and unlocks too, so they never reconnect on their own
+      const handleAccountChange = async (newAccounts: string[], isActive: () => boolean) => {
+        if (!isActive()) return;
+        try {
+          const newAccount = newAccounts?.[0];
+          if (!newAccount) {
+            // StarMask reports no accounts once it is locked or the site is revoked
+            if (this._wallet) {
+              this._wallet = null;
+              this._locked = true;
+              this.transition(WalletConnectionState.Disconnected);
+              this.emitDisconnect(true);
+            }
+            return;
+          }
+          if (!this._wallet) {
+            if (this._locked && !this.connecting) await this.reconnectSilently();
+            return;
+          }
+          const { publicKey, authKey } = await this.fetchAccountKeys(newAccount);
+          this._wallet = {
+            ...this._wallet,
+            address: newAccount,
+            publicKey,
+            authKey
+          };
+          this.emitAccountEvent('accountChange');
+        } catch (error: any) {
+          this.emit('error', new WalletAccountChangeError(error?.message, error));
+        }
       };
-      await provider?.on('accountsChanged', handleAccountChange)
+      return await this.subscribeToProvider('accountChange', (isActive) =>
+        this.addProviderListener('accountsChanged', (newAccounts: string[]) =>
+          handleAccountChange(newAccounts, isActive)
+        )
+      );
     } catch (error: any) {
       const errMsg = error.message;
       this.emit('error', new WalletAccountChangeError(errMsg));
@@ -408,18 +948,24 @@ export class StarcoinWalletAdapter extends BaseWalletAdapter {
     }
   }
 
-  async onNetworkChange(): Promise<void> {
+  async onNetworkChange(): Promise<() => void> {
     try {
       const wallet = this._wallet;
       const provider = this._provider || window.starcoin;
       if (!wallet || !provider) throw new WalletNotConnectedError();
-      const handleNetworkChange = (network: WalletAdapterNetwork) => {
-        this._network = network;
-        // this._api = network.api;
-        // this._chainId = network.chainId;
-        this.emit('networkChange', this._network);
+      const handleNetworkChange = (network: number | string) => {
+        try {
+          this.setNetwork(network);
+          this.emitNetworkChange();
+        } catch (error: any) {
+          this.emit('error', new WalletNetworkChangeError(error.message));
+        }
       };
-      await provider?.on('networkChanged', handleNetworkChange)
+      return await this.subscribeToProvider('networkChange', (isActive) =>
+        this.addProviderListener('networkChanged', (network: number | string) => {
+          if (isActive()) handleNetworkChange(network);
+        })
+      );
     } catch (error: any) {
       const errMsg = error.message;
       this.emit('error', new WalletNetworkChangeError(errMsg));
@@ -4,16 +4,24 @@ import {
   WalletError,
   WalletNotConnectedError,
   WalletNotReadyError,
-  WalletNotSelectedError
+  WalletNotSelectedError,
+  WalletNotSupportedError
 } from './errors';
 import { useLocalStorage } from '../hooks/useLocalStorage';
 import {
   AccountKeys,
+  AdapterCallOptions,
   NetworkInfo,
   SignMessagePayload,
+  WaitForTransactionOptions,
+  WalletAccountEvent,
   WalletAdapter,
+  WalletConnectionState,
+  WalletDisconnectEvent,
   WalletName,
-  WalletReadyState
+  WalletNetworkEvent,
+  WalletReadyState,
+  WalletStateChangeEvent
 } from '../WalletAdapters/BaseAdapter';
 import { Wallet, WalletContext } from './useWallet';
 
@@ -29,13 +37,13 @@ const initialState: {
   wallet: Wallet | null;
   adapter: WalletAdapter | null;
   account: AccountKeys | null;
-  connected: boolean;
+  connectionState: WalletConnectionState;
   network: NetworkInfo | null;
 } = {
   wallet: null,
   adapter: null,
   account: null,
-  connected: false,
+  connectionState: WalletConnectionState.Disconnected,
   network: null
 };
 
@@ -47,13 +55,14 @@ export const WalletProvider: FC<WalletProviderProps> = ({
   localStorageKey = 'walletName'
 }) => {
   const [name, setName] = useLocalStorage<WalletName | null>(localStorageKey, null);
-  const [{ wallet, adapter, account, connected, network }, setState] = useState(initialState);
+  const [{ wallet, adapter, account, connectionState, network }, setState] = useState(initialState);
   const readyState = adapter?.readyState || WalletReadyState.Unsupported;
-  const [connecting, setConnecting] = useState(false);
-  const [disconnecting, setDisconnecting] = useState(false);
-  const isConnecting = useRef(false);
-  const isDisconnecting = useRef(false);
+  const connecting = connectionState === WalletConnectionState.Connecting;
+  const connected = connectionState === WalletConnectionState.Connected;
+  const disconnecting = connectionState === WalletConnectionState.Disconnecting;
   const isUnloading = useRef(false);
+  // Set while the selected wallet ended the session itself, e.g. Starcoin until it is unlocked
+  const isWalletDisconnected = useRef(false);
 
   // Wrap adapters to conform to the `Wallet` interface
   const [wallets, setWallets] = useState(() =>
@@ -79,14 +88,48 @@ export const WalletProvider: FC<WalletProviderProps> = ({
       });
     }
 
-    adapters.forEach((wAdapter) =>
-      wAdapter.on('readyStateChange', handleReadyStateChange, wAdapter)
-    );
-    return () =>
-      adapters.forEach((wAdapter) =>
-        wAdapter.off('readyStateChange', handleReadyStateChange, wAdapter)
+    // Adapters can restore a session on their own, e.g. Starcoin after the wallet is unlocked.
+    // That only selects the wallet while the user hasn't picked or connected another one.
+    function handleAdapterConnect(this: WalletAdapter) {
+      if (
+        (name && name !== this.name) ||
+        adapters.some((wAdapter) => wAdapter !== this && wAdapter.connected)
+      )
+        return;
+      const selectedWallet = { adapter: this, readyState: this.readyState };
+      setState((state) =>
+        state.adapter
+          ? state
+          : {
+              wallet: selectedWallet,
+              adapter: this,
+              connectionState: this.connectionState,
+              account: this.publicAccount,
+              network: this.network
+            }
       );
-  }, [adapters]);
+      setName(this.name);
+    }
+
+    // Listening on every adapter catches the transitions a connect makes before it is selected
+    function handleStateChange(this: WalletAdapter, event: WalletStateChangeEvent) {
+      setState((state) =>
+        state.adapter === this ? { ...state, connectionState: event.state } : state
+      );
+    }
+
+    adapters.forEach((wAdapter) => {
+      wAdapter.on('readyStateChange', handleReadyStateChange, wAdapter);
+      wAdapter.on('connect', handleAdapterConnect, wAdapter);
+      wAdapter.on('stateChange', handleStateChange, wAdapter);
+    });
+    return () =>
+      adapters.forEach((wAdapter) => {
+        wAdapter.off('readyStateChange', handleReadyStateChange, wAdapter);
+        wAdapter.off('connect', handleAdapterConnect, wAdapter);
+        wAdapter.off('stateChange', handleStateChange, wAdapter);
+      });
+  }, [adapters, name, setName]);
 
   // When the selected wallet changes, initialize the state
   useEffect(() => {
@@ -97,7 +140,7 @@ export const WalletProvider: FC<WalletProviderProps> = ({
       setState({
         wallet: selectedWallet,
         adapter: selectedWallet.adapter,
-        connected: selectedWallet.adapter.connected,
+        connectionState: selectedWallet.adapter.connectionState,
         account: selectedWallet.adapter.publicAccount,
         network: selectedWallet.adapter.network
       });
@@ -120,50 +163,71 @@ export const WalletProvider: FC<WalletProviderProps> = ({
   }, [isUnloading, autoConnect]);
 
   // Handle the adapter's connect event
-  const handleConnect = useCallback(() => {
-    if (!adapter) return;
-    setState((state) => {
-      return {
-        ...state,
-        connected: adapter.connected,
-        account: adapter.publicAccount,
-        network: adapter.network
-      };
-    });
-  }, [adapter]);
+  const handleConnect = useCallback(
+    (event: WalletAccountEvent) => {
+      if (!adapter) return;
+      isWalletDisconnected.current = false;
+      setState((state) => {
+        return {
+          ...state,
+          connectionState: adapter.connectionState,
+          account: event.account,
+          network: adapter.network
+        };
+      });
+    },
+    [adapter]
+  );
 
   // Handle the adapter's network event
-  const handleNetworkChange = useCallback(() => {
-    if (!adapter) return;
-    // console.log('adapter: handleNetworkChange', adapter.network);
-    setState((state) => {
-      return {
-        ...state,
-        network: adapter.network
-      };
-    });
-  }, [adapter]);
+  const handleNetworkChange = useCallback(
+    (event: WalletNetworkEvent) => {
+      if (!adapter) return;
+      setState((state) => {
+        return {
+          ...state,
+          network: event.network
+        };
+      });
+    },
+    [adapter]
+  );
 
   // Handle the adapter's account event
-  const handleAccountChange = useCallback(() => {
-    if (!adapter) return;
-    // console.log('adapter: handleAccountChange', adapter.publicAccount);
-    setState((state) => {
-      return {
-        ...state,
-        account: adapter.publicAccount
-      };
-    });
-  }, [adapter]);
+  const handleAccountChange = useCallback(
+    (event: WalletAccountEvent) => {
+      if (!adapter) return;
+      setState((state) => {
+        return {
+          ...state,
+          account: event.account
+        };
+      });
+    },
+    [adapter]
+  );
 
   // Handle the adapter's disconnect event
-  const handleDisconnect = useCallback(() => {
-    // Clear the selected wallet unless the window is unloading
-    if (!isUnloading.current) {
+  const handleDisconnect = useCallback(
+    (event?: WalletDisconnectEvent) => {
+      if (isUnloading.current) return;
+      // Keep the wallet selected and subscribed, its adapter may restore the session on its own
+      if (event?.byWallet) {
+        isWalletDisconnected.current = true;
+        setState((state) => ({
+          ...state,
+          connectionState: WalletConnectionState.Disconnected,
+          account: null
+        }));
+        return;
+      }
+      // Clear the selected wallet
+      isWalletDisconnected.current = false;
       setName(null);
       setState(initialState);
-    }
-  }, [isUnloading, setName]);
+    },
+    [isUnloading, setName]
+  );
 
   // Handle the adapter's error event, and local errors
   const handleError = useCallback(
@@ -178,8 +242,17 @@ export const WalletProvider: FC<WalletProviderProps> = ({
   // Listen on the adapter's network/account changes
   useEffect(() => {
     if (adapter && connected) {
-      adapter.onAccountChange();
-      adapter.onNetworkChange();
+      const subscriptions = [adapter.onAccountChange(), adapter.onNetworkChange()];
+      return () => {
+        // The wallet reports the unlock through these subscriptions
+        if (isWalletDisconnected.current) return;
+        subscriptions.forEach((subscription) =>
+          subscription.then(
+            (unsubscribe) => unsubscribe(),
+            () => undefined
+          )
+        );
+      };
     }
   }, [adapter, connected]);
 
@@ -208,17 +281,31 @@ export const WalletProvider: FC<WalletProviderProps> = ({
     handleNetworkChange
   ]);
 
-  // When the adapter changes, disconnect the old one
+  // Stop wallet detection once the adapters are no longer rendered
+  useEffect(() => {
+    return () => adapters.forEach((wAdapter) => wAdapter.dispose());
+  }, [adapters]);
+
+  // When the adapter changes, disconnect the old one, unless it is still busy with a connect
   useEffect(() => {
     return () => {
-      adapter?.disconnect();
+      adapter?.disconnect().catch(() => undefined);
     };
   }, [adapter]);
 
   // Connect the adapter to the wallet
   const connect = useCallback(
-    async (walletName?) => {
-      if (isConnecting.current || isDisconnecting.current || connected || !walletName) return;
+    async (walletName?: WalletName, options?: AdapterCallOptions) => {
+      // Read from the adapter, since a connect started in this render isn't in `connectionState` yet
+      const currentState = adapter?.connectionState || WalletConnectionState.Disconnected;
+      if (
+        !walletName ||
+        !(
+          currentState === WalletConnectionState.Disconnected ||
+          currentState === WalletConnectionState.Error
+        )
+      )
+        return;
       let walletToConnect = initialState;
       if (!adapter || walletName !== adapter?.name) {
         const selectedWallet = wallets.find((wAdapter) => wAdapter.adapter.name === walletName);
@@ -226,7 +313,7 @@ export const WalletProvider: FC<WalletProviderProps> = ({
           walletToConnect = {
             wallet: selectedWallet,
             adapter: selectedWallet.adapter,
-            connected: selectedWallet.adapter.connected,
+            connectionState: selectedWallet.adapter.connectionState,
             account: selectedWallet.adapter.publicAccount,
             network: selectedWallet.adapter.network
           };
@@ -237,7 +324,7 @@ export const WalletProvider: FC<WalletProviderProps> = ({
         walletToConnect = {
           wallet,
           adapter,
-          connected,
+          connectionState: currentState,
           account,
           network
         };
@@ -258,28 +345,23 @@ export const WalletProvider: FC<WalletProviderProps> = ({
 
         throw handleError(new WalletNotReadyError('Wallet Not Ready'));
       }
-      isConnecting.current = true;
-      setConnecting(true);
       try {
-        await walletToConnect.adapter.connect();
+        await walletToConnect.adapter.connect(options);
       } catch (error: any) {
         // Clear the selected wallet
         setName(null);
         // Rethrow the error, and handleError will also be called
         throw error;
-      } finally {
-        setConnecting(false);
-        isConnecting.current = false;
       }
     },
-    [connected, adapter, handleError, wallets, setName, wallet, account, network]
+    [adapter, handleError, wallets, setName, wallet, account, network]
   );
 
   // If autoConnect is enabled, try to connect when the adapter changes and is ready
   useEffect(() => {
     if (
-      isConnecting.current ||
-      connected ||
+      connectionState !== WalletConnectionState.Disconnected ||
+      isWalletDisconnected.current ||
       !autoConnect ||
       !name ||
       !adapter ||
@@ -287,15 +369,14 @@ export const WalletProvider: FC<WalletProviderProps> = ({
     )
       return;
     connect(name);
-  }, [isConnecting, connected, autoConnect, name, connect, adapter, readyState]);
+  }, [connectionState, autoConnect, name, connect, adapter, readyState]);
 
   // Disconnect the adapter from the wallet
   const disconnect = useCallback(async () => {
-    if (isDisconnecting.current) return;
+    isWalletDisconnected.current = false;
     if (!adapter) return setName(null);
+    if (adapter.connectionState === WalletConnectionState.Disconnecting) return;
 
-    isDisconnecting.current = true;
-    setDisconnecting(true);
     try {
       await adapter.disconnect();
     } catch (error: any) {
@@ -303,17 +384,19 @@ export const WalletProvider: FC<WalletProviderProps> = ({
       setName(null);
       // Rethrow the error, and handleError will also be called
       throw error;
-    } finally {
-      setDisconnecting(false);
-      isDisconnecting.current = false;
     }
-  }, [isDisconnecting, setName, adapter]);
+  }, [setName, adapter]);
 
   // Send a transaction using the provided connection
   const signAndSubmitTransaction = useCallback(
     async (transaction: Types.TransactionPayload, option?: any) => {
       if (!adapter) throw handleError(new WalletNotSelectedError());
       if (!connected) throw handleError(new WalletNotConnectedError());
+      if (!adapter.features.signAndSubmitTransaction) {
+        throw handleError(
+          new WalletNotSupportedError(`${adapter.name} does not support signAndSubmitTransaction`)
+        );
+      }
       const response = await adapter.signAndSubmitTransaction(transaction, option);
       return response;
     },
@@ -324,26 +407,45 @@ export const WalletProvider: FC<WalletProviderProps> = ({
     async (transaction: Types.TransactionPayload, option?: any) => {
       if (!adapter) throw handleError(new WalletNotSelectedError());
       if (!connected) throw handleError(new WalletNotConnectedError());
+      if (!adapter.features.signTransaction) {
+        throw handleError(
+          new WalletNotSupportedError(`${adapter.name} does not support signTransaction`)
+        );
+      }
       return adapter.signTransaction(transaction, option);
     },
     [adapter, handleError, connected]
   );
 
   const signMessage = useCallback(
-    async (msgPayload: string | SignMessagePayload | Uint8Array) => {
+    async (msgPayload: string | SignMessagePayload | Uint8Array, options?: AdapterCallOptions) => {
       if (!adapter) throw handleError(new WalletNotSelectedError());
       if (!connected) throw handleError(new WalletNotConnectedError());
-      return adapter.signMessage(msgPayload);
+      if (!adapter.features.signMessage) {
+        throw handleError(
+          new WalletNotSupportedError(`${adapter.name} does not support signMessage`)
+        );
+      }
+      return adapter.signMessage(msgPayload, options);
     },
     [adapter, handleError, connected]
   );
 
+  const waitForTransaction = useCallback(
+    async (hash: Types.HexEncodedBytes, options?: WaitForTransactionOptions) => {
+      if (!adapter) throw handleError(new WalletNotSelectedError());
+      return adapter.waitForTransaction(hash, options);
+    },
+    [adapter, handleError]
+  );
+
   return (
     <WalletContext.Provider
       value={{
         wallets,
         wallet,
         account,
+        connectionState,
         connected,
         connecting,
         disconnecting,
@@ -354,7 +456,9 @@ export const WalletProvider: FC<WalletProviderProps> = ({
         signAndSubmitTransaction,
         signTransaction,
         signMessage,
-        network
+        waitForTransaction,
+        network,
+        features: adapter?.features || null
       }}>
       {children}
     </WalletContext.Provider>
@@ -4,6 +4,8 @@ export class WalletError extends Error {
   // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
   constructor(message?: string, error?: any) {
     super(message);
+    // Restores the subclass prototype Error drops when compiled to ES5, so `instanceof` works
+    Object.setPrototypeOf(this, new.target.prototype);
     this.error = error;
   }
 }
@@ -12,6 +14,10 @@ export class WalletNotSelectedError extends WalletError {
   name = 'WalletNotSelectedError';
 }
 
+export class WalletNotSupportedError extends WalletError {
+  name = 'WalletNotSupportedError';
+}
+
 export class WalletNotReadyError extends WalletError {
   name = 'WalletNotReadyError';
 }
@@ -36,6 +42,19 @@ export class WalletDisconnectionError extends WalletError {
   name = 'WalletDisconnectionError';
 }
 
+// A connect or disconnect overlapped another one, or the adapter was asked for an invalid transition
+export class WalletConnectionStateError extends WalletError {
+  name = 'WalletConnectionStateError';
+
+  public state: string;
+
+  // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+  constructor(message: string, state: string) {
+    super(message);
+    this.state = state;
+  }
+}
+
 export class WalletAccountError extends WalletError {
   name = 'WalletAccountError';
 }
@@ -63,6 +82,16 @@ export class WalletNotConnectedError extends WalletError {
   name = 'WalletNotConnectedError';
 }
 
+// The user dismissed the wallet prompt
+export class WalletUserRejectedError extends WalletError {
+  name = 'WalletUserRejectedError';
+}
+
+// The wallet is locked or no longer authorizes the site, unlocking it is up to the user
+export class WalletLockedError extends WalletError {
+  name = 'WalletLockedError';
+}
+
 export class WalletSendTransactionError extends WalletError {
   name = 'WalletSendTransactionError';
 }
@@ -79,10 +108,53 @@ export class WalletSignTransactionError extends WalletError {
   name = 'WalletSignTransactionError';
 }
 
+export class WalletSimulationError extends WalletError {
+  name = 'WalletSimulationError';
+}
+
+// The wallet or its node failed the request, `code` is the provider's own error code
+export class WalletRpcError extends WalletError {
+  name = 'WalletRpcError';
+
+  public code?: number | string;
+
+  // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+  constructor(message?: string, error?: any, code?: number | string) {
+    super(message, error);
+    this.code = code;
+  }
+}
+
+export class WalletInsufficientBalanceError extends WalletError {
+  name = 'WalletInsufficientBalanceError';
+}
+
+export type AcceptTokenStep = 'check' | 'recipient' | 'accept_token' | 'transaction';
+
+export class WalletAcceptTokenError extends WalletError {
+  name = 'WalletAcceptTokenError';
+
+  public step: AcceptTokenStep;
+
+  public token?: string;
+
+  // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+  constructor(message: string, step: AcceptTokenStep, token?: string, error?: any) {
+    super(message, error);
+    this.step = step;
+    this.token = token;
+  }
+}
+
 export class WalletTimeoutError extends WalletError {
   name = 'WalletTimeoutError';
 }
 
+// The call's `AbortSignal` fired before the wallet answered
+export class WalletAbortedError extends WalletError {
+  name = 'WalletAbortedError';
+}
+
 export class WalletWindowBlockedError extends WalletError {
   name = 'WalletWindowBlockedError';
 }
@@ -90,3 +162,30 @@ export class WalletWindowBlockedError extends WalletError {
 export class WalletWindowClosedError extends WalletError {
   name = 'WalletWindowClosedError';
 }
+
+export class WalletPayloadError extends WalletError {
+  name = 'WalletPayloadError';
+
+  public field: string;
+
+  public value: any;
+
+  // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+  constructor(message: string, field: string, value?: any) {
+    super(message);
+    this.field = field;
+    this.value = value;
+  }
+}
+
+export class WalletInvalidAddressError extends WalletPayloadError {
+  name = 'WalletInvalidAddressError';
+}
+
+export class WalletInvalidAmountError extends WalletPayloadError {
+  name = 'WalletInvalidAmountError';
+}
+
+export class WalletInvalidArgumentsError extends WalletPayloadError {
+  name = 'WalletInvalidArgumentsError';
+}
@@ -2,10 +2,15 @@ import { Types } from 'aptos';
 import { createContext, useContext } from 'react';
 import {
   AccountKeys,
+  AdapterCallOptions,
   NetworkInfo,
   SignMessagePayload,
   SignMessageResponse,
+  TransactionReceipt,
+  WaitForTransactionOptions,
   WalletAdapter,
+  WalletAdapterFeatures,
+  WalletConnectionState,
   WalletName,
   WalletReadyState
 } from '../WalletAdapters/BaseAdapter';
@@ -20,12 +25,16 @@ export interface WalletContextState {
   wallets: Wallet[];
   wallet: Wallet | null;
   account: AccountKeys | null;
+  // The selected adapter's state, `connecting`, `connected` and `disconnecting` derive from it
+  connectionState: WalletConnectionState;
   connecting: boolean;
   connected: boolean;
   disconnecting: boolean;
   network: NetworkInfo;
-  select(walletName?: WalletName): Promise<void>;
-  connect(walletName?: WalletName): Promise<void>;
+  // What the selected wallet supports, null until one is selected
+  features: WalletAdapterFeatures | null;
+  select(walletName?: WalletName, options?: AdapterCallOptions): Promise<void>;
+  connect(walletName?: WalletName, options?: AdapterCallOptions): Promise<void>;
   disconnect(): Promise<void>;
   signAndSubmitTransaction(
     transaction: Types.TransactionPayload,
@@ -33,12 +42,18 @@ export interface WalletContextState {
   ): Promise<{ hash: Types.HexEncodedBytes }>;
   signTransaction(transaction: Types.TransactionPayload, options?: any): Promise<Uint8Array>;
   signMessage(
-    message: string | SignMessagePayload | Uint8Array
+    message: string | SignMessagePayload | Uint8Array,
+    options?: AdapterCallOptions
   ): Promise<SignMessageResponse | string>;
+  waitForTransaction(
+    hash: Types.HexEncodedBytes,
+    options?: WaitForTransactionOptions
+  ): Promise<TransactionReceipt>;
 }
 
 const DEFAULT_CONTEXT = {
   autoConnect: false,
+  connectionState: WalletConnectionState.Disconnected,
   connecting: false,
   connected: false,
   disconnecting: false
@@ -1,10 +1,13 @@
 import { AptosClient, FaucetClient } from 'aptos';
+import { WalletAdapterNetwork } from '../WalletAdapters/BaseAdapter';
 
 export const WEBWALLET_URL = 'https://hippo-wallet-test.web.app';
 // export const WEBWALLET_URL = 'http://localhost:3030';
 
 export const LOCAL_NODE_URL = 'http://127.0.0.1:8080';
 export const DEVNET_NODE_URL = 'https://fullnode.devnet.aptoslabs.com/v1';
+export const TESTNET_NODE_URL = 'https://fullnode.testnet.aptoslabs.com/v1';
+export const MAINNET_NODE_URL = 'https://fullnode.mainnet.aptoslabs.com/v1';
 export const LOCAL_FAUCET_URL = 'http://127.0.0.1:8081';
 export const DEVNET_FAUCET_URL = 'https://faucet.devnet.aptoslabs.com';
 
@@ -13,3 +16,13 @@ export const FAUCET_URL = DEVNET_FAUCET_URL;
 
 export const aptosClient = new AptosClient(NODE_URL);
 export const faucetClient = new FaucetClient(NODE_URL, FAUCET_URL);
+
+const APTOS_NODE_URLS: { [network: string]: string } = {
+  [WalletAdapterNetwork.Mainnet]: MAINNET_NODE_URL,
+  [WalletAdapterNetwork.Testnet]: TESTNET_NODE_URL,
+  [WalletAdapterNetwork.Devnet]: DEVNET_NODE_URL
+};
+
+// Wallets report the network name with inconsistent casing, e.g. `Testnet` from Petra
+export const getAptosNodeUrl = (network?: string): string | undefined =>
+  network ? APTOS_NODE_URLS[network.toLowerCase()] : undefined;
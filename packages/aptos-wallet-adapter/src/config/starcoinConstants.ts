@@ -0,0 +1,31 @@
+import { WalletAdapterNetwork } from '../WalletAdapters/BaseAdapter';
+
+export const STARCOIN_NETWORKS: { [chainId: string]: WalletAdapterNetwork } = {
+  '1': WalletAdapterNetwork.Main,
+  '2': WalletAdapterNetwork.Proxima,
+  '251': WalletAdapterNetwork.Barnard,
+  '253': WalletAdapterNetwork.Halley,
+  '254': WalletAdapterNetwork.Dev
+};
+
+export const STARCOIN_NODE_URLS: { [chainId: string]: string } = {
+  '1': 'https://main-seed.starcoin.org',
+  '2': 'https://proxima-seed.starcoin.org',
+  '251': 'https://barnard-seed.starcoin.org',
+  '253': 'https://halley-seed.starcoin.org',
+  '254': 'http://localhost:9850'
+};
+
+// StarMask reports the chain id either as a number, a decimal string or a `0x` prefixed string
+export const parseStarcoinChainId = (chainId: number | string): number | undefined => {
+  const id = typeof chainId === 'number' ? chainId : Number(chainId);
+  return Number.isInteger(id) && id >= 0 ? id : undefined;
+};
+
+export const getStarcoinNetworkName = (chainId: number): WalletAdapterNetwork | undefined =>
+  STARCOIN_NETWORKS[chainId.toString()];
+
+export const getStarcoinChainId = (network: WalletAdapterNetwork): number | undefined => {
+  const chainId = Object.keys(STARCOIN_NETWORKS).find((id) => STARCOIN_NETWORKS[id] === network);
+  return chainId === undefined ? undefined : Number(chainId);
+};
@@ -0,0 +1,18 @@
+import { WalletAdapterNetwork } from '../WalletAdapters/BaseAdapter';
+
+export const STARSWAP_ADDRESSES: { [network: string]: string } = {
+  [WalletAdapterNetwork.Main]: '0x8c109349c6bd91411d6bc962e080c4a3',
+  [WalletAdapterNetwork.Barnard]: '0x4783d08fb16990bd35d83f3e23bf93b8'
+};
+
+export const STARSWAP_SWAP_MODULE = 'TokenSwapScripts';
+
+export const STARSWAP_FARM_MODULE = 'TokenSwapFarmScript';
+
+// Slippage is in basis points, 50 is 0.5%
+export const STARSWAP_DEFAULT_SLIPPAGE_BPS = 50;
+
+export const STARSWAP_DEFAULT_DEADLINE_SECS = 1200;
+
+export const getStarswapAddress = (network?: WalletAdapterNetwork | string): string | undefined =>
+  network ? STARSWAP_ADDRESSES[network.toLowerCase()] : STARSWAP_ADDRESSES.main;
@@ -1,2 +1,6 @@
 export * from './WalletProviders';
 export * from './WalletAdapters';
+export * from './utilities/payloadValidation';
+export * from './utilities/tokenAmount';
+export * from './utilities/starswapPayloads';
+export * from './utilities/starcoinReadClient';
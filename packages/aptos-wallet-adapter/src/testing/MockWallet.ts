@@ -0,0 +1,352 @@
+import { Types } from 'aptos';
+import {
+  WalletDisconnectionError,
+  WalletNotConnectedError,
+  WalletNotReadyError,
+  WalletNotSupportedError,
+  WalletUserRejectedError
+} from '../WalletProviders/errors';
+import {
+  AccountKeys,
+  AdapterCallOptions,
+  BaseWalletAdapter,
+  NetworkInfo,
+  SignMessagePayload,
+  SignMessageResponse,
+  TransactionReceipt,
+  WaitForTransactionOptions,
+  WalletAdapterFeatures,
+  WalletAdapterNetwork,
+  WalletConnectionState,
+  WalletName,
+  WalletReadyState
+} from '../WalletAdapters/BaseAdapter';
+import { withTimeout } from '../utilities/util';
+
+export const MockWalletName = 'Mock' as WalletName<'Mock'>;
+
+export type MockWalletMethod =
+  | 'connect'
+  | 'disconnect'
+  | 'signTransaction'
+  | 'signAndSubmitTransaction'
+  | 'signMessage'
+  | 'waitForTransaction';
+
+export interface MockWalletCall {
+  method: MockWalletMethod;
+  args: any[];
+}
+
+export interface MockWalletAdapterConfig {
+  name?: string;
+  account?: AccountKeys;
+  network?: NetworkInfo;
+  features?: Partial<WalletAdapterFeatures>;
+  readyState?: WalletReadyState;
+  delayMs?: number; // Applied to every call unless `setDelay` overrides it
+  timeout?: number;
+  signature?: string;
+  signedTransaction?: Uint8Array;
+  transactionHash?: Types.HexEncodedBytes;
+  receipt?: Partial<TransactionReceipt>;
+}
+
+const DEFAULT_MOCK_ACCOUNT: AccountKeys = {
+  address: '0x0000000000000000000000000000000000000000000000000000000000000001',
+  publicKey: '0x0000000000000000000000000000000000000000000000000000000000000000',
+  authKey: '0x0000000000000000000000000000000000000000000000000000000000000001'
+};
+
+/**
+ * A scriptable adapter for tests, which never talks to an extension.
+ * Every call is recorded in `calls`, and errors, delays, account and network
+ * changes can be injected at any point.
+ */
+export class MockWalletAdapter extends BaseWalletAdapter {
+  name: WalletName;
+
+  url = 'https://github.com/Elements-Studio/starswap-wallet-adapter';
+
+  icon = '';
+
+  features: WalletAdapterFeatures;
+
+  calls: MockWalletCall[];
+
+  signature: string;
+
+  signedTransaction: Uint8Array;
+
+  transactionHash: Types.HexEncodedBytes;
+
+  receipt: Partial<TransactionReceipt>;
+
+  protected _account: AccountKeys;
+
+  protected _network: NetworkInfo;
+
+  protected _readyState: WalletReadyState;
+
+  protected _timeout: number;
+
+  protected _delayMs: number;
+
+  protected _delays: { [method: string]: number };
+
+  protected _errors: { [method: string]: Error };
+
+  protected _listening: { [event: string]: () => boolean };
+
+  constructor({
+    name = MockWalletName,
+    account = DEFAULT_MOCK_ACCOUNT,
+    network = { name: WalletAdapterNetwork.Devnet },
+    features = {},
+    readyState = WalletReadyState.Loadable,
+    delayMs = 0,
+    timeout = 10000,
+    signature = '0xmocksignature',
+    signedTransaction = new Uint8Array([0]),
+    transactionHash = '0xmocktransactionhash',
+    receipt = {}
+  }: MockWalletAdapterConfig = {}) {
+    super();
+
+    this.name = name as WalletName;
+    this.features = {
+      signTransaction: true,
+      signAndSubmitTransaction: true,
+      signMessage: true,
+      disconnect: true,
+      accountChange: true,
+      networkChange: true,
+      switchNetwork: false,
+      multisig: false,
+      ...features
+    };
+    this.calls = [];
+    this.signature = signature;
+    this.signedTransaction = signedTransaction;
+    this.transactionHash = transactionHash;
+    this.receipt = receipt;
+    this._account = account;
+    this._network = network;
+    this._readyState = readyState;
+    this._timeout = timeout;
+    this._delayMs = delayMs;
+    this._delays = {};
+    this._errors = {};
+    this._listening = {};
+  }
+
+  get publicAccount(): AccountKeys {
+    return this.connected ? this._account : { publicKey: null, address: null, authKey: null };
+  }
+
+  get network(): NetworkInfo {
+    return this._network;
+  }
+
+  get readyState(): WalletReadyState {
+    return this._readyState;
+  }
+
+  // Makes every later call to `method` fail with `error`, until `clearError` is called
+  setError(method: MockWalletMethod, error: Error): void {
+    this._errors[method] = error;
+  }
+
+  clearError(method: MockWalletMethod): void {
+    delete this._errors[method];
+  }
+
+  approveConnect(): void {
+    this.clearError('connect');
+  }
+
+  rejectConnect(error: Error = new WalletUserRejectedError('User rejected the request')): void {
+    this.setError('connect', error);
+  }
+
+  setDelay(method: MockWalletMethod, delayMs: number): void {
+    this._delays[method] = delayMs;
+  }
+
+  setReadyState(readyState: WalletReadyState): void {
+    this._readyState = readyState;
+    this.emit('readyStateChange', readyState);
+  }
+
+  // Switches account as if done in the wallet, subscribers get `accountChange`
+  simulateAccountChange(account: AccountKeys): void {
+    this._account = account;
+    if (this.connected && this._listening.accountChange?.()) {
+      this.emitAccountEvent('accountChange');
+    }
+  }
+
+  // Switches network as if done in the wallet, subscribers get `networkChange`
+  simulateNetworkChange(network: NetworkInfo): void {
+    this._network = network;
+    if (this.connected && this._listening.networkChange?.()) {
+      this.emitNetworkChange();
+    }
+  }
+
+  // Ends the session from the wallet side, e.g. the user locked it
+  simulateDisconnect(): void {
+    if (!this.connected) return;
+    this.transition(WalletConnectionState.Disconnected);
+    this.emitDisconnect(true);
+  }
+
+  // Forgets recorded calls, injected errors and delays
+  reset(): void {
+    this.calls = [];
+    this._errors = {};
+    this._delays = {};
+  }
+
+  async connect(options?: AdapterCallOptions): Promise<void> {
+    if (this.connected) return;
+    this.assertIdle('connect');
+    this.transition(WalletConnectionState.Connecting);
+    try {
+      if (
+        !(
+          this._readyState === WalletReadyState.Loadable ||
+          this._readyState === WalletReadyState.Installed
+        )
+      )
+        throw new WalletNotReadyError();
+
+      await this.respond('connect', [options], options, () => undefined);
+      this.transition(WalletConnectionState.Connected);
+      this.emitAccountEvent('connect');
+    } catch (error: any) {
+      this.transition(WalletConnectionState.Error, error);
+      this.emit('error', error);
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.assertIdle('disconnect');
+    if (this.connected) {
+      this.transition(WalletConnectionState.Disconnecting);
+      this.removeProviderSubscriptions();
+
+      try {
+        await this.respond('disconnect', [], {}, () => undefined);
+      } catch (error: any) {
+        this.emit('error', new WalletDisconnectionError(error?.message, error));
+      }
+    }
+
+    this.transition(WalletConnectionState.Disconnected);
+    this.emitDisconnect();
+  }
+
+  async signTransaction(transaction: Types.TransactionPayload, options?: any): Promise<Uint8Array> {
+    return this.respondConnected('signTransaction', [transaction, options], options, () =>
+      this.signedTransaction.slice()
+    );
+  }
+
+  async signAndSubmitTransaction(
+    transaction: Types.TransactionPayload,
+    options?: any
+  ): Promise<{ hash: Types.HexEncodedBytes }> {
+    return this.respondConnected(
+      'signAndSubmitTransaction',
+      [transaction, options],
+      options,
+      () => ({
+        hash: this.transactionHash
+      })
+    );
+  }
+
+  async signMessage(
+    message: string | SignMessagePayload | Uint8Array,
+    options?: AdapterCallOptions
+  ): Promise<string | SignMessageResponse> {
+    return this.respondConnected('signMessage', [message, options], options, () => {
+      if (typeof message === 'string' || message instanceof Uint8Array) return this.signature;
+      return {
+        address: this._account.address?.toString() || '',
+        application: typeof window === 'undefined' ? '' : window.location.origin,
+        chainId: Number(this._network.chainId) || 0,
+        fullMessage: message.message,
+        message: message.message,
+        nonce: message.nonce,
+        prefix: 'APTOS',
+        signature: this.signature
+      };
+    });
+  }
+
+  async waitForTransaction(
+    hash: Types.HexEncodedBytes,
+    options?: WaitForTransactionOptions
+  ): Promise<TransactionReceipt> {
+    return this.respond('waitForTransaction', [hash, options], { signal: options?.signal }, () => ({
+      hash,
+      success: true,
+      gasUsed: '0',
+      vmStatus: 'Executed',
+      events: [],
+      ...this.receipt
+    }));
+  }
+
+  async onAccountChange(): Promise<() => void> {
+    if (!this.connected) throw new WalletNotConnectedError();
+    return this.subscribeToProvider('accountChange', (isActive) => {
+      this._listening.accountChange = isActive;
+    });
+  }
+
+  async onNetworkChange(): Promise<() => void> {
+    if (!this.connected) throw new WalletNotConnectedError();
+    return this.subscribeToProvider('networkChange', (isActive) => {
+      this._listening.networkChange = isActive;
+    });
+  }
+
+  protected async respondConnected<T>(
+    method: MockWalletMethod,
+    args: any[],
+    options: AdapterCallOptions | undefined,
+    result: () => T
+  ): Promise<T> {
+    try {
+      if (!this.connected) throw new WalletNotConnectedError();
+      if (!this.features[method as keyof WalletAdapterFeatures]) {
+        throw new WalletNotSupportedError(`${this.name} does not support ${method}`);
+      }
+      return await this.respond(method, args, options, result);
+    } catch (error: any) {
+      this.emit('error', error);
+      throw error;
+    }
+  }
+
+  // Records the call, then settles after the configured delay with `result` or the injected error
+  protected async respond<T>(
+    method: MockWalletMethod,
+    args: any[],
+    options: AdapterCallOptions | undefined,
+    result: () => T
+  ): Promise<T> {
+    const { timeout = this._timeout, signal } = options || {};
+    this.calls.push({ method, args });
+    const delayMs = this._delays[method] === undefined ? this._delayMs : this._delays[method];
+    const error = this._errors[method];
+    const response = new Promise<T>((resolve, reject) => {
+      setTimeout(() => (error ? reject(error) : resolve(result())), delayMs);
+    });
+    return withTimeout(response, timeout, method, signal);
+  }
+}
@@ -0,0 +1,416 @@
+import { Types } from 'aptos';
+import {
+  SignMessagePayload,
+  WALLET_EVENT_VERSION,
+  WalletAccountEvent,
+  WalletAdapter,
+  WalletAdapterEvents,
+  WalletConnectionState,
+  WalletReadyState
+} from '../WalletAdapters/BaseAdapter';
+import {
+  WalletAbortedError,
+  WalletConnectionStateError,
+  WalletError,
+  WalletNotConnectedError,
+  WalletNotReadyError,
+  WalletUserRejectedError
+} from '../WalletProviders/errors';
+
+export interface ConformanceAccount {
+  address: string;
+  publicKey: string;
+}
+
+// Scripts the fake extension a target injects for the adapter under test
+export interface ConformanceProvider {
+  // Every later prompt fails as if the user had rejected it
+  setRejecting(rejecting: boolean): void;
+  // Switches account in the extension, `null` locks it
+  switchAccount(account: ConformanceAccount | null): void;
+}
+
+export interface AdapterConformanceTarget {
+  name: string;
+  // The account the extension starts on, then the one it switches to
+  accounts: [ConformanceAccount, ConformanceAccount];
+  // Injects a fake extension where the adapter looks for it
+  install(account: ConformanceAccount): ConformanceProvider;
+  uninstall(): void;
+  createAdapter(): WalletAdapter;
+  transaction: Types.TransactionPayload;
+  message?: string | SignMessagePayload;
+  // Whether the fake extension can be locked, only then wallet-side disconnects are checked
+  canLock?: boolean;
+}
+
+export interface ConformanceResult {
+  name: string;
+  status: 'passed' | 'failed' | 'skipped';
+  error?: string;
+}
+
+export interface ConformanceReport {
+  target: string;
+  passed: boolean;
+  results: ConformanceResult[];
+}
+
+export interface ConformanceOptions {
+  // How long to wait for an adapter event before a check fails
+  eventTimeoutMs?: number;
+}
+
+interface ConformanceContext {
+  target: AdapterConformanceTarget;
+  adapter: WalletAdapter;
+  // `null` when the check starts without an extension
+  provider: ConformanceProvider | null;
+  errors: any[];
+  waitFor<E extends keyof WalletAdapterEvents>(
+    event: E,
+    predicate?: (...args: Parameters<WalletAdapterEvents[E]>) => boolean
+  ): Promise<Parameters<WalletAdapterEvents[E]>>;
+}
+
+interface ConformanceCheck {
+  name: string;
+  installed: boolean;
+  skip?: (target: AdapterConformanceTarget, adapter: WalletAdapter) => boolean;
+  run(context: ConformanceContext): Promise<void>;
+}
+
+const DEFAULT_MESSAGE: SignMessagePayload = { message: 'Conformance check', nonce: '1' };
+
+const assert = (condition: any, message: string) => {
+  if (!condition) throw new Error(message);
+};
+
+const sameAddress = (a: any, b: any) =>
+  !!a && !!b && a.toString().toLowerCase() === b.toString().toLowerCase();
+
+const expectRejection = async (
+  promise: Promise<any>,
+  ErrorClass: new (...args: any[]) => WalletError
+) => {
+  let rejection: any;
+  try {
+    await promise;
+  } catch (error: any) {
+    rejection = error || new Error('Rejected without an error');
+  }
+  assert(rejection, 'Expected the call to reject');
+  assert(
+    rejection instanceof ErrorClass,
+    `Expected ${ErrorClass.name}, got ${rejection?.name}: ${rejection?.message}`
+  );
+  return rejection;
+};
+
+const assertAccountEvent = (
+  name: string,
+  event: WalletAccountEvent,
+  { address, publicKey }: ConformanceAccount
+) => {
+  assert(
+    event?.version === WALLET_EVENT_VERSION,
+    `Expected a version ${WALLET_EVENT_VERSION} ${name}`
+  );
+  assert(
+    sameAddress(event.account?.address, address),
+    `Expected ${name} to carry ${address}, got ${event.account?.address}`
+  );
+  assert(
+    sameAddress(event.account.publicKey, publicKey),
+    `Expected ${name} to carry the public key ${publicKey}`
+  );
+};
+
+const connect = async ({ adapter }: ConformanceContext) => {
+  await adapter.connect();
+  assert(adapter.connected, 'Expected the adapter to be connected');
+};
+
+const CHECKS: ConformanceCheck[] = [
+  {
+    name: 'readyState is NotDetected and connect rejects until the extension is injected',
+    installed: false,
+    async run({ adapter }) {
+      assert(
+        adapter.readyState === WalletReadyState.NotDetected,
+        `Expected readyState NotDetected, got ${adapter.readyState}`
+      );
+      await expectRejection(adapter.connect(), WalletNotReadyError);
+    }
+  },
+  {
+    name: 'readyState becomes Installed once the extension is injected',
+    installed: false,
+    async run({ target, adapter, waitFor }) {
+      const readyStateChange = waitFor(
+        'readyStateChange',
+        (readyState) => readyState === WalletReadyState.Installed
+      );
+      target.install(target.accounts[0]);
+      await readyStateChange;
+      assert(
+        adapter.readyState === WalletReadyState.Installed,
+        `Expected readyState Installed, got ${adapter.readyState}`
+      );
+    }
+  },
+  {
+    name: 'connect emits the account and exposes it',
+    installed: true,
+    async run(context) {
+      const { target, adapter, waitFor } = context;
+      const connectEvent = waitFor('connect');
+      await connect(context);
+      const [event] = await connectEvent;
+      assertAccountEvent('connect', event, target.accounts[0]);
+      assert(
+        sameAddress(adapter.publicAccount.address, target.accounts[0].address),
+        `Expected publicAccount.address ${target.accounts[0].address}`
+      );
+      assert(!adapter.connecting, 'Expected connecting to be reset');
+    }
+  },
+  {
+    name: 'a rejected connect fails with WalletUserRejectedError and stays disconnected',
+    installed: true,
+    async run({ adapter, provider, errors }) {
+      provider.setRejecting(true);
+      await expectRejection(adapter.connect(), WalletUserRejectedError);
+      assert(!adapter.connected, 'Expected the adapter to stay disconnected');
+      assert(!adapter.connecting, 'Expected connecting to be reset');
+      assert(
+        adapter.connectionState === WalletConnectionState.Error,
+        `Expected connectionState error, got ${adapter.connectionState}`
+      );
+      assert(
+        errors.some((error) => error instanceof WalletUserRejectedError),
+        'Expected a WalletUserRejectedError event'
+      );
+    }
+  },
+  {
+    name: 'connect and disconnect step through stateChange and reject overlapping calls',
+    installed: true,
+    async run({ adapter }) {
+      const states: WalletConnectionState[] = [];
+      adapter.on('stateChange', (event) => {
+        assert(
+          event?.version === WALLET_EVENT_VERSION,
+          `Expected a version ${WALLET_EVENT_VERSION} stateChange`
+        );
+        states.push(event.state);
+      });
+      const connecting = adapter.connect();
+      await expectRejection(adapter.connect(), WalletConnectionStateError);
+      await expectRejection(adapter.disconnect(), WalletConnectionStateError);
+      await connecting;
+      await adapter.disconnect();
+      const expected = [
+        WalletConnectionState.Connecting,
+        WalletConnectionState.Connected,
+        WalletConnectionState.Disconnecting,
+        WalletConnectionState.Disconnected
+      ];
+      assert(
+        states.join() === expected.join(),
+        `Expected stateChange ${expected.join(' -> ')}, got ${states.join(' -> ')}`
+      );
+    }
+  },
+  {
+    name: 'an aborted connect fails with WalletAbortedError and can be retried',
+    installed: true,
+    async run(context) {
+      const { adapter } = context;
+      const controller = new AbortController();
+      controller.abort();
+      await expectRejection(adapter.connect({ signal: controller.signal }), WalletAbortedError);
+      assert(
+        adapter.connectionState === WalletConnectionState.Error,
+        `Expected connectionState error, got ${adapter.connectionState}`
+      );
+      await connect(context);
+    }
+  },
+  {
+    name: 'sign methods reject with WalletNotConnectedError before connect',
+    installed: true,
+    async run({ target, adapter }) {
+      await expectRejection(adapter.signTransaction(target.transaction), WalletNotConnectedError);
+      await expectRejection(
+        adapter.signAndSubmitTransaction(target.transaction),
+        WalletNotConnectedError
+      );
+      await expectRejection(
+        adapter.signMessage(target.message || DEFAULT_MESSAGE),
+        WalletNotConnectedError
+      );
+    }
+  },
+  {
+    name: 'signTransaction resolves to the signed bytes',
+    installed: true,
+    skip: (target, adapter) => !adapter.features.signTransaction,
+    async run(context) {
+      await connect(context);
+      const signed = await context.adapter.signTransaction(context.target.transaction);
+      assert(signed instanceof Uint8Array && signed.length > 0, 'Expected a non-empty Uint8Array');
+    }
+  },
+  {
+    name: 'signAndSubmitTransaction resolves to { hash }',
+    installed: true,
+    skip: (target, adapter) => !adapter.features.signAndSubmitTransaction,
+    async run(context) {
+      await connect(context);
+      const result = await context.adapter.signAndSubmitTransaction(context.target.transaction);
+      assert(typeof result?.hash === 'string' && result.hash, 'Expected a string hash');
+    }
+  },
+  {
+    name: 'signMessage resolves to a signature or a SignMessageResponse',
+    installed: true,
+    skip: (target, adapter) => !adapter.features.signMessage,
+    async run(context) {
+      await connect(context);
+      const result = await context.adapter.signMessage(context.target.message || DEFAULT_MESSAGE);
+      const signature = typeof result === 'string' ? result : result?.signature;
+      assert(typeof signature === 'string' && signature, 'Expected a string signature');
+    }
+  },
+  {
+    name: 'a rejected signature fails with WalletUserRejectedError',
+    installed: true,
+    skip: (target, adapter) => !adapter.features.signMessage,
+    async run(context) {
+      await connect(context);
+      context.provider.setRejecting(true);
+      await expectRejection(
+        context.adapter.signMessage(context.target.message || DEFAULT_MESSAGE),
+        WalletUserRejectedError
+      );
+      assert(
+        context.errors.some((error) => error instanceof WalletUserRejectedError),
+        'Expected a WalletUserRejectedError event'
+      );
+    }
+  },
+  {
+    name: 'accountChange carries the new account',
+    installed: true,
+    skip: (target, adapter) => !adapter.features.accountChange,
+    async run(context) {
+      const { target, adapter, provider, waitFor } = context;
+      await connect(context);
+      await adapter.onAccountChange();
+      const accountChange = waitFor('accountChange');
+      provider.switchAccount(target.accounts[1]);
+      const [event] = await accountChange;
+      assertAccountEvent('accountChange', event, target.accounts[1]);
+      assert(
+        sameAddress(adapter.publicAccount.address, target.accounts[1].address),
+        `Expected publicAccount.address ${target.accounts[1].address}`
+      );
+    }
+  },
+  {
+    name: 'disconnect emits disconnect and clears the account',
+    installed: true,
+    async run(context) {
+      const { adapter, waitFor } = context;
+      await connect(context);
+      const disconnectEvent = waitFor('disconnect');
+      await adapter.disconnect();
+      await disconnectEvent;
+      assert(!adapter.connected, 'Expected the adapter to be disconnected');
+      assert(!adapter.publicAccount.address, 'Expected publicAccount.address to be cleared');
+    }
+  },
+  {
+    name: 'locking the extension emits disconnect',
+    installed: true,
+    skip: (target, adapter) => !target.canLock || !adapter.features.accountChange,
+    async run(context) {
+      const { adapter, provider, waitFor } = context;
+      await connect(context);
+      await adapter.onAccountChange();
+      const disconnectEvent = waitFor('disconnect');
+      provider.switchAccount(null);
+      await disconnectEvent;
+      assert(!adapter.connected, 'Expected the adapter to be disconnected');
+    }
+  }
+];
+
+/**
+ * Runs the `BaseWalletAdapter` lifecycle checks against `target`, each one on a fresh
+ * adapter and fake extension. Needs a DOM, e.g. jsdom, since adapters detect through `window`.
+ */
+export const runAdapterConformance = async (
+  target: AdapterConformanceTarget,
+  { eventTimeoutMs = 2000 }: ConformanceOptions = {}
+): Promise<ConformanceReport> => {
+  const results: ConformanceResult[] = [];
+  for (const check of CHECKS) {
+    target.uninstall();
+    const provider = check.installed ? target.install(target.accounts[0]) : null;
+    const adapter = target.createAdapter();
+    const errors: any[] = [];
+    adapter.on('error', (error) => errors.push(error));
+    const waitFor: ConformanceContext['waitFor'] = (event, predicate) =>
+      new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          adapter.off(event, listener);
+          reject(new Error(`No ${event} event within ${eventTimeoutMs}ms`));
+        }, eventTimeoutMs);
+        const listener: any = (...args: any[]) => {
+          if (predicate && !(predicate as any)(...args)) return;
+          clearTimeout(timer);
+          adapter.off(event, listener);
+          resolve(args as any);
+        };
+        adapter.on(event, listener);
+      });
+
+    try {
+      if (check.skip?.(target, adapter)) {
+        results.push({ name: check.name, status: 'skipped' });
+      } else {
+        await check.run({ target, adapter, provider, errors, waitFor });
+        results.push({ name: check.name, status: 'passed' });
+      }
+    } catch (error: any) {
+      results.push({ name: check.name, status: 'failed', error: error?.message || String(error) });
+    } finally {
+      adapter.dispose();
+      adapter.removeAllListeners();
+      target.uninstall();
+    }
+  }
+
+  return {
+    target: target.name,
+    passed: results.every(({ status }) => status !== 'failed'),
+    results
+  };
+};
+
+// Throws with every failed check listed, for test runners that only look at exceptions
+export const assertAdapterConformance = async (
+  target: AdapterConformanceTarget,
+  options?: ConformanceOptions
+): Promise<ConformanceReport> => {
+  const report = await runAdapterConformance(target, options);
+  if (!report.passed) {
+    const failures = report.results
+      .filter(({ status }) => status === 'failed')
+      .map(({ name, error }) => `  ${name}: ${error}`);
+    throw new Error(`${report.target} does not conform:\n${failures.join('\n')}`);
+  }
+  return report;
+};
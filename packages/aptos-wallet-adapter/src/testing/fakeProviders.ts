@@ -0,0 +1,254 @@
+import EventEmitter from 'eventemitter3';
+import { Types } from 'aptos';
+import {
+  SignMessagePayload,
+  SignMessageResponse,
+  WalletAdapterNetwork
+} from '../WalletAdapters/BaseAdapter';
+import { AptosWalletAdapter } from '../WalletAdapters/PetraWallet';
+import { MartianWalletAdapter } from '../WalletAdapters/MartianWallet';
+import { PontemWalletAdapter } from '../WalletAdapters/PontemWallet';
+import { StarcoinWalletAdapter } from '../WalletAdapters/StarcoinWallet';
+import { AdapterConformanceTarget, ConformanceAccount, ConformanceProvider } from './conformance';
+
+const FAKE_SIGNATURE = `0x${'5'.repeat(128)}`;
+
+const FAKE_HASH = `0x${'a'.repeat(64)}`;
+
+const APTOS_ACCOUNTS: [ConformanceAccount, ConformanceAccount] = [
+  { address: `0x${'1'.repeat(64)}`, publicKey: `0x${'2'.repeat(64)}` },
+  { address: `0x${'3'.repeat(64)}`, publicKey: `0x${'4'.repeat(64)}` }
+];
+
+// Starcoin addresses are 16 bytes
+const STARCOIN_ACCOUNTS: [ConformanceAccount, ConformanceAccount] = [
+  { address: `0x${'1'.repeat(32)}`, publicKey: `0x${'2'.repeat(64)}` },
+  { address: `0x${'3'.repeat(32)}`, publicKey: `0x${'4'.repeat(64)}` }
+];
+
+const APTOS_TRANSACTION: Types.TransactionPayload = {
+  type: 'entry_function_payload',
+  function: '0x1::coin::transfer',
+  type_arguments: ['0x1::aptos_coin::AptosCoin'],
+  arguments: [APTOS_ACCOUNTS[1].address, '1']
+};
+
+const STARCOIN_TRANSACTION: Types.TransactionPayload = {
+  type: 'entry_function_payload',
+  function: '0x1::TransferScripts::peer_to_peer_v2',
+  type_arguments: ['0x1::STC::STC'],
+  arguments: [STARCOIN_ACCOUNTS[1].address, '1']
+};
+
+/**
+ * The state behind every fake extension: the current account, whether prompts are
+ * rejected and who listens for account switches. Each wallet wraps it in its own API.
+ */
+export class FakeExtension implements ConformanceProvider {
+  account: ConformanceAccount | null;
+
+  connected = false;
+
+  rejecting = false;
+
+  protected _accountListeners: ((account: ConformanceAccount | null) => void)[] = [];
+
+  constructor(account: ConformanceAccount) {
+    this.account = account;
+  }
+
+  setRejecting(rejecting: boolean): void {
+    this.rejecting = rejecting;
+  }
+
+  switchAccount(account: ConformanceAccount | null): void {
+    this.account = account;
+    this._accountListeners.forEach((listener) => listener(account));
+  }
+
+  onAccountChange(listener: (account: ConformanceAccount | null) => void): () => void {
+    this._accountListeners.push(listener);
+    return () => {
+      this._accountListeners = this._accountListeners.filter((l) => l !== listener);
+    };
+  }
+
+  // Settles like a wallet popup, failing with the EIP-1193 user rejection code when scripted to
+  async prompt<T>(result: () => T): Promise<T> {
+    if (this.rejecting) {
+      throw Object.assign(new Error('User rejected the request'), { code: 4001 });
+    }
+    return result();
+  }
+
+  requireAccount(): ConformanceAccount {
+    if (!this.account) throw new Error('The extension is locked');
+    return this.account;
+  }
+
+  signMessageResponse(payload: SignMessagePayload): SignMessageResponse {
+    return {
+      address: this.requireAccount().address,
+      application: window.location.origin,
+      chainId: 2,
+      fullMessage: `APTOS\nmessage: ${payload.message}\nnonce: ${payload.nonce}`,
+      message: payload.message,
+      nonce: payload.nonce,
+      prefix: 'APTOS',
+      signature: FAKE_SIGNATURE
+    };
+  }
+}
+
+const createPetraProvider = (fake: FakeExtension) => ({
+  connect: () => fake.prompt(() => fake.requireAccount()),
+  account: async () => fake.requireAccount(),
+  isConnected: async () => !!fake.account,
+  network: async () => WalletAdapterNetwork.Testnet,
+  signTransaction: () => fake.prompt(() => new Uint8Array([1])),
+  signAndSubmitTransaction: () => fake.prompt(() => ({ hash: FAKE_HASH })),
+  signMessage: (payload: SignMessagePayload) =>
+    fake.prompt(() => fake.signMessageResponse(payload)),
+  disconnect: async () => undefined,
+  onAccountChange: (listener: (account: any) => void) => {
+    fake.onAccountChange((account) => listener(account || {}));
+  },
+  onNetworkChange: () => undefined
+});
+
+const createMartianProvider = (fake: FakeExtension) => ({
+  connect: () =>
+    fake.prompt(() => ({ ...fake.requireAccount(), method: 'connected', status: 200 })),
+  account: async () => ({ ...fake.requireAccount(), authKey: null, isConnected: true }),
+  isConnected: async () => false,
+  generateTransaction: async (sender: string, payload: any) => ({ sender, payload }),
+  signTransaction: () => fake.prompt(() => new Uint8Array([1])),
+  signAndSubmitTransaction: () => fake.prompt(() => FAKE_HASH),
+  signMessage: (payload: SignMessagePayload) =>
+    fake.prompt(() => fake.signMessageResponse(payload)),
+  disconnect: async () => undefined,
+  getChainId: async () => ({ chainId: 2 }),
+  network: async () => WalletAdapterNetwork.Testnet,
+  onAccountChange: (listener: (address: string) => void) => {
+    fake.onAccountChange((account) => listener(account?.address || ''));
+  },
+  onNetworkChange: () => undefined
+});
+
+const createPontemProvider = (fake: FakeExtension) => ({
+  connect: () =>
+    fake.prompt(() => ({ ...fake.requireAccount(), method: 'connected', status: 200 })),
+  account: async () => fake.requireAccount().address,
+  publicKey: async () => fake.requireAccount().publicKey,
+  isConnected: async () => false,
+  signTransaction: () => fake.prompt(() => new Uint8Array([1])),
+  signAndSubmit: () => fake.prompt(() => ({ success: true, result: { hash: FAKE_HASH } })),
+  signMessage: (payload: SignMessagePayload) =>
+    fake.prompt(() => ({ success: true, result: fake.signMessageResponse(payload) })),
+  disconnect: async () => undefined,
+  network: async () => ({ name: WalletAdapterNetwork.Testnet, chainId: '2' }),
+  onAccountChange: async (listener: (address: string | undefined) => void) => {
+    fake.onAccountChange((account) => listener(account?.address));
+  },
+  onNetworkChange: async () => undefined
+});
+
+// StarMask speaks JSON-RPC, through `request` and the legacy `sendAsync` starcoin.js signs with
+const createStarMaskProvider = (fake: FakeExtension) => {
+  const events = new EventEmitter();
+  fake.onAccountChange((account) =>
+    events.emit('accountsChanged', account ? [account.address] : [])
+  );
+
+  const request = async ({ method }: { method: string; params?: any }): Promise<any> => {
+    switch (method) {
+      case 'stc_requestAccounts':
+        return fake.prompt(() => {
+          fake.connected = true;
+          return [fake.requireAccount().address];
+        });
+      case 'stc_accounts':
+        return fake.connected && fake.account ? [fake.account.address] : [];
+      case 'chain.id':
+        return { id: 251, name: 'barnard' };
+      case 'stc_getPublicKey':
+        return fake.account?.publicKey;
+      case 'personal_sign':
+        return fake.prompt(() => FAKE_SIGNATURE);
+      case 'stc_sendTransaction':
+        return fake.prompt(() => FAKE_HASH);
+      default:
+        throw new Error(`Unsupported method: ${method}`);
+    }
+  };
+
+  return {
+    isStarMask: true,
+    networkVersion: '251',
+    isConnected: async () => fake.connected,
+    request,
+    sendAsync: (payload: any, callback: (error: any, response?: any) => void) => {
+      request(payload).then(
+        (result) => callback(null, { id: payload.id, jsonrpc: '2.0', result }),
+        (error) => callback(error)
+      );
+    },
+    on: (event: string, listener: (...args: any[]) => void) => events.on(event, listener),
+    removeListener: (event: string, listener: (...args: any[]) => void) =>
+      events.off(event, listener)
+  };
+};
+
+// Encoding resolves the function ABI from a node, which is outside the extension contract
+class ConformanceStarcoinWalletAdapter extends StarcoinWalletAdapter {
+  protected async encodeScriptFunctionPayload(): Promise<string> {
+    return '0x00';
+  }
+}
+
+const createFakeTarget = (
+  name: string,
+  key: string,
+  createProvider: (fake: FakeExtension) => any,
+  target: Omit<AdapterConformanceTarget, 'name' | 'install' | 'uninstall'>
+): AdapterConformanceTarget => ({
+  name,
+  install(account) {
+    const fake = new FakeExtension(account);
+    (window as any)[key] = createProvider(fake);
+    return fake;
+  },
+  uninstall() {
+    delete (window as any)[key];
+  },
+  ...target
+});
+
+/**
+ * Conformance targets for the bundled adapters, each driving a fake of its extension.
+ * Adapter authors can follow the same shape for their own wallet.
+ */
+export const getBuiltInConformanceTargets = (): AdapterConformanceTarget[] => [
+  createFakeTarget('Petra', 'aptos', createPetraProvider, {
+    accounts: APTOS_ACCOUNTS,
+    createAdapter: () => new AptosWalletAdapter(),
+    transaction: APTOS_TRANSACTION
+  }),
+  createFakeTarget('Martian', 'martian', createMartianProvider, {
+    accounts: APTOS_ACCOUNTS,
+    createAdapter: () => new MartianWalletAdapter(),
+    transaction: APTOS_TRANSACTION
+  }),
+  createFakeTarget('Pontem', 'pontem', createPontemProvider, {
+    accounts: APTOS_ACCOUNTS,
+    createAdapter: () => new PontemWalletAdapter(),
+    transaction: APTOS_TRANSACTION,
+    canLock: true
+  }),
+  createFakeTarget('Starcoin', 'starcoin', createStarMaskProvider, {
+    accounts: STARCOIN_ACCOUNTS,
+    createAdapter: () => new ConformanceStarcoinWalletAdapter(),
+    transaction: STARCOIN_TRANSACTION,
+    canLock: true
+  })
+];
@@ -0,0 +1,3 @@
+export * from './conformance';
+export * from './fakeProviders';
+export * from './MockWallet';
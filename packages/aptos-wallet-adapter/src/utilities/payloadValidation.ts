@@ -0,0 +1,149 @@
+import { Types } from 'aptos';
+import BigNumber from 'bignumber.js';
+import {
+  WalletInvalidAddressError,
+  WalletInvalidAmountError,
+  WalletInvalidArgumentsError,
+  WalletPayloadError
+} from '../WalletProviders/errors';
+
+export type PayloadArgumentKind = 'address' | 'u8' | 'u64' | 'u128' | 'bool' | 'any';
+
+export type PayloadChain = 'aptos' | 'starcoin';
+
+const MAX_UNSIGNED: { [kind: string]: BigNumber } = {
+  u8: new BigNumber(2).pow(8).minus(1),
+  u64: new BigNumber(2).pow(64).minus(1),
+  u128: new BigNumber(2).pow(128).minus(1)
+};
+
+// Argument layouts of the entry functions dapps call the most, keyed by normalized function id
+const KNOWN_ARGUMENT_KINDS: { [functionId: string]: PayloadArgumentKind[] } = {
+  '0x1::TransferScripts::peer_to_peer_v2': ['address', 'u128'],
+  '0x1::coin::transfer': ['address', 'u64'],
+  '0x1::aptos_account::transfer': ['address', 'u64']
+};
+
+// Aptos addresses are 32 bytes and Starcoin addresses 16, in hex digits
+const MAX_ADDRESS_LENGTH: { [chain in PayloadChain]: number } = {
+  aptos: 64,
+  starcoin: 32
+};
+
+// Wallets take addresses with or without the `0x` prefix
+const ADDRESS_REGEX = /^(0x)?([0-9a-fA-F]+)$/;
+const FUNCTION_ID_REGEX = /^(0x[0-9a-fA-F]{1,64})::(\w+)::(\w+)$/;
+
+export const isValidAddress = (address: any, chain: PayloadChain = 'aptos'): boolean => {
+  const match = typeof address === 'string' && ADDRESS_REGEX.exec(address);
+  return !!match && match[2].length <= MAX_ADDRESS_LENGTH[chain];
+};
+
+export const normalizeAddress = (address: string): string =>
+  address.startsWith('0x') ? address : `0x${address}`;
+
+// `0x00000001::Module::func` and `0x1::Module::func` refer to the same function
+export const normalizeFunctionId = (functionId: string): string => {
+  const match = FUNCTION_ID_REGEX.exec(functionId);
+  if (!match) return functionId;
+  const address = match[1].slice(2).replace(/^0+/, '') || '0';
+  return `0x${address.toLowerCase()}::${match[2]}::${match[3]}`;
+};
+
+const validateArgument = (
+  kind: PayloadArgumentKind,
+  value: any,
+  field: string,
+  chain: PayloadChain
+) => {
+  if (kind === 'address') {
+    if (!isValidAddress(value, chain)) {
+      throw new WalletInvalidAddressError(`Invalid ${field}: malformed address`, field, value);
+    }
+  } else if (kind === 'bool') {
+    if (typeof value !== 'boolean') {
+      throw new WalletInvalidArgumentsError(`Invalid ${field}: expected a boolean`, field, value);
+    }
+  } else if (kind !== 'any') {
+    const amount =
+      typeof value === 'string' || typeof value === 'number' || typeof value === 'bigint'
+        ? new BigNumber(value.toString())
+        : new BigNumber(NaN);
+    if (!amount.isInteger() || amount.isNegative() || amount.gt(MAX_UNSIGNED[kind])) {
+      throw new WalletInvalidAmountError(
+        `Invalid ${field}: expected a non-negative integer that fits in ${kind}`,
+        field,
+        value
+      );
+    }
+  }
+};
+
+/**
+ * Checks the shape of an entry function payload before it is handed to a wallet, and returns it
+ * with `0x` prefixed address arguments. Arguments are only type checked when their layout is
+ * known, either from `argumentKinds` or from the built-in list of common transfer functions.
+ * Addresses are checked against the address length of `chain`.
+ */
+export const validateTransactionPayload = (
+  payload: Types.TransactionPayload,
+  argumentKinds?: PayloadArgumentKind[],
+  chain: PayloadChain = 'aptos'
+): Types.TransactionPayload => {
+  if (!payload || typeof payload !== 'object') {
+    throw new WalletPayloadError('Invalid payload: expected an object', 'payload', payload);
+  }
+  const {
+    function: functionId,
+    type_arguments: typeArgs,
+    arguments: args
+  } = payload as Types.TransactionPayload_EntryFunctionPayload;
+  // Script and module bundle payloads are passed through untouched
+  if (functionId === undefined) return payload;
+
+  const functionMatch = typeof functionId === 'string' && FUNCTION_ID_REGEX.exec(functionId);
+  if (!functionMatch || !isValidAddress(functionMatch[1], chain)) {
+    throw new WalletPayloadError(
+      'Invalid function: expected `address::module::name`',
+      'function',
+      functionId
+    );
+  }
+  if (
+    typeArgs !== undefined &&
+    (!Array.isArray(typeArgs) || typeArgs.some((typeArg) => typeof typeArg !== 'string'))
+  ) {
+    throw new WalletInvalidArgumentsError(
+      'Invalid type_arguments: expected an array of type tags',
+      'type_arguments',
+      typeArgs
+    );
+  }
+  if (args !== undefined && !Array.isArray(args)) {
+    throw new WalletInvalidArgumentsError(
+      'Invalid arguments: expected an array',
+      'arguments',
+      args
+    );
+  }
+
+  const kinds = argumentKinds || KNOWN_ARGUMENT_KINDS[normalizeFunctionId(functionId)];
+  if (!kinds) return payload;
+  const values = args || [];
+  if (values.length !== kinds.length) {
+    throw new WalletInvalidArgumentsError(
+      `Invalid arguments: ${functionId} expects ${kinds.length} arguments, got ${values.length}`,
+      'arguments',
+      values
+    );
+  }
+  kinds.forEach((kind, index) =>
+    validateArgument(kind, values[index], `arguments[${index}]`, chain)
+  );
+  return {
+    ...payload,
+    arguments: values.map((value, index) =>
+      kinds[index] === 'address' ? normalizeAddress(value) : value
+    )
+  } as Types.TransactionPayload;
+};
@@ -0,0 +1,166 @@
+import { providers } from '@starcoin/starcoin';
+import { WalletPayloadError } from '../WalletProviders/errors';
+import { scalingFactorToDecimals } from './tokenAmount';
+
+const CORE_ADDRESS = '0x00000000000000000000000000000001';
+
+const BALANCE_PREFIX = `${CORE_ADDRESS}::Account::Balance<`;
+
+export interface StarcoinTokenInfo {
+  token: string;
+  symbol: string;
+  decimals: number;
+  scalingFactor: string;
+}
+
+export interface StarcoinReadClientConfig {
+  // A function lets the client follow the network an adapter is currently on
+  nodeUrl: string | (() => string);
+  // How long the head block number is trusted before it is fetched again
+  blockTtlMs?: number;
+}
+
+interface BlockCache {
+  block: string;
+  entries: { [key: string]: Promise<any> };
+}
+
+// `0x1::STC::STC` -> `STC`, Starcoin tokens are named after their struct
+const getTokenSymbol = (token: string): string => {
+  const struct = token.split('<')[0].split('::');
+  return struct[struct.length - 1];
+};
+
+/**
+ * Read-only JSON-RPC client for Starcoin account state.
+ * Responses are cached until the chain head moves to a new block.
+ */
+export class StarcoinReadClient {
+  protected _nodeUrl: string | (() => string);
+
+  protected _blockTtlMs: number;
+
+  protected _heads: { [nodeUrl: string]: { block: Promise<string>; expiresAt: number } };
+
+  protected _caches: { [nodeUrl: string]: BlockCache };
+
+  // Reused, since every new provider first sends `chain.id` to detect the network
+  protected _providers: { [nodeUrl: string]: providers.JsonRpcProvider };
+
+  constructor({ nodeUrl, blockTtlMs = 2000 }: StarcoinReadClientConfig) {
+    this._nodeUrl = nodeUrl;
+    this._blockTtlMs = blockTtlMs;
+    this._heads = {};
+    this._caches = {};
+    this._providers = {};
+  }
+
+  get nodeUrl(): string {
+    return typeof this._nodeUrl === 'function' ? this._nodeUrl() : this._nodeUrl;
+  }
+
+  async getBlockNumber(): Promise<string> {
+    const nodeUrl = this.nodeUrl;
+    const head = this._heads[nodeUrl];
+    if (head && head.expiresAt > Date.now()) return head.block;
+
+    const block = this.send(nodeUrl, 'chain.info', []).then((info) => info.head.number.toString());
+    this._heads[nodeUrl] = { block, expiresAt: Date.now() + this._blockTtlMs };
+    block.catch(() => {
+      if (this._heads[nodeUrl]?.block === block) delete this._heads[nodeUrl];
+    });
+    return block;
+  }
+
+  async getResource(address: string, resourceType: string): Promise<any> {
+    return this.cachedRequest('state.get_resource', [address, resourceType, { decode: true }]);
+  }
+
+  async listResources(address: string): Promise<{ [resourceType: string]: any }> {
+    const result = await this.cachedRequest('state.list_resource', [address, { decode: true }]);
+    return result?.resources || {};
+  }
+
+  // On-chain units of `token` held by `address`, `'0'` when the token is not accepted
+  async getBalance(address: string, token: string): Promise<string> {
+    const resource = await this.getResource(address, `${CORE_ADDRESS}::Account::Balance<${token}>`);
+    return resource?.json?.token?.value?.toString() || '0';
+  }
+
+  // Every `Balance<T>` resource of `address`, keyed by the fully qualified token type
+  async getBalances(address: string): Promise<{ [token: string]: string }> {
+    const resources = await this.listResources(address);
+    return Object.keys(resources).reduce((balances, resourceType) => {
+      if (!resourceType.startsWith(BALANCE_PREFIX)) return balances;
+      const token = resourceType.slice(BALANCE_PREFIX.length, -1);
+      return {
+        ...balances,
+        [token]: resources[resourceType]?.json?.token?.value?.toString() || '0'
+      };
+    }, {} as { [token: string]: string });
+  }
+
+  async getTokenInfo(token: string): Promise<StarcoinTokenInfo> {
+    const resource = await this.getResource(
+      token.split('::')[0],
+      `${CORE_ADDRESS}::Token::TokenInfo<${token}>`
+    );
+    const scalingFactor = resource?.json?.scaling_factor;
+    if (scalingFactor === undefined || scalingFactor === null) {
+      throw new WalletPayloadError(`Unknown token: ${token}`, 'token', token);
+    }
+    return {
+      token,
+      symbol: getTokenSymbol(token),
+      decimals: scalingFactorToDecimals(scalingFactor.toString()),
+      scalingFactor: scalingFactor.toString()
+    };
+  }
+
+  async isTokenAccepted(address: string, token: string): Promise<boolean> {
+    const resource = await this.getResource(address, `${CORE_ADDRESS}::Account::Balance<${token}>`);
+    return !!resource;
+  }
+
+  async isAutoAcceptToken(address: string): Promise<boolean> {
+    const resource = await this.getResource(address, `${CORE_ADDRESS}::Account::AutoAcceptToken`);
+    return !!resource?.json?.enable;
+  }
+
+  // Transfers to an account that doesn't exist yet create it with the token accepted
+  async canReceiveToken(address: string, token: string): Promise<boolean> {
+    const [accepted, autoAccept, account] = await Promise.all([
+      this.isTokenAccepted(address, token),
+      this.isAutoAcceptToken(address),
+      this.getResource(address, `${CORE_ADDRESS}::Account::Account`)
+    ]);
+    return accepted || autoAccept || !account;
+  }
+
+  protected async cachedRequest(method: string, params: any[]): Promise<any> {
+    const nodeUrl = this.nodeUrl;
+    const block = await this.getBlockNumber();
+    let cache = this._caches[nodeUrl];
+    if (!cache || cache.block !== block) {
+      cache = { block, entries: {} };
+      this._caches[nodeUrl] = cache;
+    }
+
+    const key = `${method}|${JSON.stringify(params)}`;
+    const entries = cache.entries;
+    if (!entries[key]) {
+      entries[key] = this.send(nodeUrl, method, params).catch((error) => {
+        delete entries[key];
+        throw error;
+      });
+    }
+    return entries[key];
+  }
+
+  protected async send(nodeUrl: string, method: string, params: any[]): Promise<any> {
+    if (!this._providers[nodeUrl]) {
+      this._providers[nodeUrl] = new providers.JsonRpcProvider(nodeUrl);
+    }
+    return this._providers[nodeUrl].send(method, params);
+  }
+}
@@ -0,0 +1,278 @@
+import { Types } from 'aptos';
+import BigNumber from 'bignumber.js';
+import { WalletAdapterNetwork } from '../WalletAdapters/BaseAdapter';
+import {
+  STARSWAP_DEFAULT_DEADLINE_SECS,
+  STARSWAP_DEFAULT_SLIPPAGE_BPS,
+  STARSWAP_FARM_MODULE,
+  STARSWAP_SWAP_MODULE,
+  getStarswapAddress
+} from '../config/starswapConstants';
+import {
+  WalletConfigError,
+  WalletInvalidAmountError,
+  WalletInvalidArgumentsError
+} from '../WalletProviders/errors';
+import { TokenAmount, TokenAmountRounding, tokenAmount } from './tokenAmount';
+
+// Decimal strings are token units, bigints are on-chain units
+export type StarswapAmount = string | bigint;
+
+export interface StarswapOptions {
+  // Defaults to the Starswap deployment on `network`, or mainnet
+  address?: string;
+  network?: WalletAdapterNetwork | string;
+  slippageBps?: number;
+  // Seconds from signing until the transaction expires
+  deadlineSecs?: number;
+}
+
+/**
+ * Pass both parts to `signAndSubmitTransaction`, the deadline is enforced through the
+ * transaction expiration since the Starswap scripts take no deadline argument.
+ */
+export interface StarswapTransaction {
+  payload: Types.TransactionPayload_EntryFunctionPayload;
+  options: { expiredSecs: number };
+}
+
+export interface StarswapPairParams extends StarswapOptions {
+  tokenX: string;
+  tokenY: string;
+}
+
+export interface SwapExactInParams extends StarswapOptions {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: StarswapAmount;
+  // Expected output from a quote, the minimum accepted is this minus slippage
+  amountOutQuote: StarswapAmount;
+}
+
+export interface SwapExactOutParams extends StarswapOptions {
+  tokenIn: string;
+  tokenOut: string;
+  amountOut: StarswapAmount;
+  // Expected input from a quote, the maximum spent is this plus slippage
+  amountInQuote: StarswapAmount;
+}
+
+export interface AddLiquidityParams extends StarswapPairParams {
+  amountX: StarswapAmount;
+  amountY: StarswapAmount;
+}
+
+export interface RemoveLiquidityParams extends StarswapPairParams {
+  liquidity: StarswapAmount;
+  amountXQuote: StarswapAmount;
+  amountYQuote: StarswapAmount;
+}
+
+export interface FarmStakeParams extends StarswapPairParams {
+  liquidity: StarswapAmount;
+}
+
+export interface ClaimRewardsParams extends StarswapPairParams {
+  // STAR to harvest, all pending rewards when omitted
+  amount?: StarswapAmount;
+}
+
+const BPS_DENOMINATOR = 10000;
+
+const validateSlippage = (slippageBps: number) => {
+  if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > BPS_DENOMINATOR) {
+    throw new WalletInvalidArgumentsError(
+      `Invalid slippageBps: expected an integer between 0 and ${BPS_DENOMINATOR}`,
+      'slippageBps',
+      slippageBps
+    );
+  }
+};
+
+/**
+ * Moves an amount by `slippageBps` basis points, down for minimums and up for maximums.
+ * Decimal strings stay exact and are rounded once the token's precision is known.
+ */
+export const applySlippage = (
+  amount: StarswapAmount,
+  slippageBps: number,
+  rounding: TokenAmountRounding
+): StarswapAmount => {
+  validateSlippage(slippageBps);
+  const value = new BigNumber(amount.toString());
+  if (!value.isFinite() || value.isNegative()) {
+    throw new WalletInvalidAmountError(
+      'Invalid amount: expected a non-negative amount',
+      'amount',
+      amount
+    );
+  }
+  const factor = rounding === 'up' ? BPS_DENOMINATOR + slippageBps : BPS_DENOMINATOR - slippageBps;
+  const adjusted = value.times(factor).div(BPS_DENOMINATOR);
+  if (typeof amount === 'bigint') {
+    return BigInt(
+      adjusted.integerValue(rounding === 'up' ? BigNumber.ROUND_UP : BigNumber.ROUND_DOWN).toFixed()
+    );
+  }
+  return adjusted.toFixed();
+};
+
+export const getLiquidityTokenType = (tokenX: string, tokenY: string, address?: string): string =>
+  `${address || getStarswapAddress()}::TokenSwap::LiquidityToken<${tokenX}, ${tokenY}>`;
+
+const resolveAddress = ({ address, network }: StarswapOptions): string => {
+  const starswapAddress = address || getStarswapAddress(network);
+  if (!starswapAddress) {
+    throw new WalletConfigError(`Starswap is not deployed on ${network}, pass an address`);
+  }
+  return starswapAddress;
+};
+
+const buildTransaction = (
+  options: StarswapOptions,
+  module: string,
+  name: string,
+  typeArgs: string[],
+  args: TokenAmount[]
+): StarswapTransaction => {
+  const { deadlineSecs = STARSWAP_DEFAULT_DEADLINE_SECS } = options;
+  if (!Number.isInteger(deadlineSecs) || deadlineSecs <= 0) {
+    throw new WalletInvalidArgumentsError(
+      'Invalid deadlineSecs: expected a positive integer',
+      'deadlineSecs',
+      deadlineSecs
+    );
+  }
+  return {
+    payload: {
+      type: 'entry_function_payload',
+      function: `${resolveAddress(options)}::${module}::${name}`,
+      type_arguments: typeArgs,
+      arguments: args
+    },
+    options: { expiredSecs: deadlineSecs }
+  };
+};
+
+const minAmount = (amount: StarswapAmount, token: string, slippageBps: number) =>
+  tokenAmount(applySlippage(amount, slippageBps, 'down'), token, { rounding: 'down' });
+
+const maxAmount = (amount: StarswapAmount, token: string, slippageBps: number) =>
+  tokenAmount(applySlippage(amount, slippageBps, 'up'), token, { rounding: 'up' });
+
+export const buildSwapExactInTransaction = ({
+  tokenIn,
+  tokenOut,
+  amountIn,
+  amountOutQuote,
+  slippageBps = STARSWAP_DEFAULT_SLIPPAGE_BPS,
+  ...options
+}: SwapExactInParams): StarswapTransaction =>
+  buildTransaction(
+    options,
+    STARSWAP_SWAP_MODULE,
+    'swap_exact_token_for_token',
+    [tokenIn, tokenOut],
+    [tokenAmount(amountIn, tokenIn), minAmount(amountOutQuote, tokenOut, slippageBps)]
+  );
+
+export const buildSwapExactOutTransaction = ({
+  tokenIn,
+  tokenOut,
+  amountOut,
+  amountInQuote,
+  slippageBps = STARSWAP_DEFAULT_SLIPPAGE_BPS,
+  ...options
+}: SwapExactOutParams): StarswapTransaction =>
+  buildTransaction(
+    options,
+    STARSWAP_SWAP_MODULE,
+    'swap_token_for_exact_token',
+    [tokenIn, tokenOut],
+    [maxAmount(amountInQuote, tokenIn, slippageBps), tokenAmount(amountOut, tokenOut)]
+  );
+
+export const buildAddLiquidityTransaction = ({
+  tokenX,
+  tokenY,
+  amountX,
+  amountY,
+  slippageBps = STARSWAP_DEFAULT_SLIPPAGE_BPS,
+  ...options
+}: AddLiquidityParams): StarswapTransaction =>
+  buildTransaction(
+    options,
+    STARSWAP_SWAP_MODULE,
+    'add_liquidity',
+    [tokenX, tokenY],
+    [
+      tokenAmount(amountX, tokenX),
+      tokenAmount(amountY, tokenY),
+      minAmount(amountX, tokenX, slippageBps),
+      minAmount(amountY, tokenY, slippageBps)
+    ]
+  );
+
+export const buildRemoveLiquidityTransaction = ({
+  tokenX,
+  tokenY,
+  liquidity,
+  amountXQuote,
+  amountYQuote,
+  slippageBps = STARSWAP_DEFAULT_SLIPPAGE_BPS,
+  ...options
+}: RemoveLiquidityParams): StarswapTransaction =>
+  buildTransaction(
+    options,
+    STARSWAP_SWAP_MODULE,
+    'remove_liquidity',
+    [tokenX, tokenY],
+    [
+      tokenAmount(liquidity, getLiquidityTokenType(tokenX, tokenY, resolveAddress(options))),
+      minAmount(amountXQuote, tokenX, slippageBps),
+      minAmount(amountYQuote, tokenY, slippageBps)
+    ]
+  );
+
+export const buildFarmStakeTransaction = ({
+  tokenX,
+  tokenY,
+  liquidity,
+  ...options
+}: FarmStakeParams): StarswapTransaction =>
+  buildTransaction(
+    options,
+    STARSWAP_FARM_MODULE,
+    'stake',
+    [tokenX, tokenY],
+    [tokenAmount(liquidity, getLiquidityTokenType(tokenX, tokenY, resolveAddress(options)))]
+  );
+
+export const buildFarmUnstakeTransaction = ({
+  tokenX,
+  tokenY,
+  liquidity,
+  ...options
+}: FarmStakeParams): StarswapTransaction =>
+  buildTransaction(
+    options,
+    STARSWAP_FARM_MODULE,
+    'unstake',
+    [tokenX, tokenY],
+    [tokenAmount(liquidity, getLiquidityTokenType(tokenX, tokenY, resolveAddress(options)))]
+  );
+
+// The farm harvests every pending reward when the amount is zero
+export const buildClaimRewardsTransaction = ({
+  tokenX,
+  tokenY,
+  amount = BigInt(0),
+  ...options
+}: ClaimRewardsParams): StarswapTransaction =>
+  buildTransaction(
+    options,
+    STARSWAP_FARM_MODULE,
+    'harvest',
+    [tokenX, tokenY],
+    [tokenAmount(amount, `${resolveAddress(options)}::STAR::STAR`)]
+  );
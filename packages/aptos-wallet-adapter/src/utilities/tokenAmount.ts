@@ -0,0 +1,114 @@
+import BigNumber from 'bignumber.js';
+import { WalletInvalidAmountError } from '../WalletProviders/errors';
+
+export type ScalingFactor = string | number | bigint;
+
+// How amounts more precise than the token allows are handled; by default they are rejected
+export type TokenAmountRounding = 'down' | 'up';
+
+/**
+ * A payload argument holding an amount in token units, e.g. `1.5` STC.
+ * Adapters replace it with the on-chain integer amount using the token's `TokenInfo`.
+ */
+export interface TokenAmount {
+  __tokenAmount__: true;
+  token: string;
+  amount: string | bigint;
+  rounding?: TokenAmountRounding;
+}
+
+// Strings are decimal token units, bigints are already on-chain units and are passed through
+export const tokenAmount = (
+  amount: string | bigint,
+  token: string,
+  { rounding }: { rounding?: TokenAmountRounding } = {}
+): TokenAmount => ({
+  __tokenAmount__: true,
+  token,
+  amount,
+  ...(rounding ? { rounding } : {})
+});
+
+export const isTokenAmount = (value: any): value is TokenAmount =>
+  !!value && typeof value === 'object' && value.__tokenAmount__ === true;
+
+const DECIMAL_REGEX = /^\d+(\.\d+)?$/;
+
+// Starcoin scaling factors are powers of ten, e.g. 1000000000 for 9 decimals
+export const scalingFactorToDecimals = (scalingFactor: ScalingFactor): number => {
+  const factor = scalingFactor.toString();
+  if (!/^10*$/.test(factor)) {
+    throw new WalletInvalidAmountError(
+      `Invalid scaling factor: ${factor} is not a power of ten`,
+      'scalingFactor',
+      scalingFactor
+    );
+  }
+  return factor.length - 1;
+};
+
+/**
+ * Converts a decimal string such as `'12.345'` into on-chain units as an integer string.
+ * Never goes through floating point, and rejects amounts more precise than the token allows
+ * unless a `rounding` direction is given.
+ */
+export const parseTokenAmount = (
+  amount: string | bigint,
+  scalingFactor: ScalingFactor,
+  { rounding }: { rounding?: TokenAmountRounding } = {}
+): string => {
+  if (typeof amount === 'bigint') {
+    if (amount < BigInt(0)) {
+      throw new WalletInvalidAmountError('Invalid amount: must not be negative', 'amount', amount);
+    }
+    return amount.toString();
+  }
+  if (typeof amount !== 'string' || !DECIMAL_REGEX.test(amount.trim())) {
+    throw new WalletInvalidAmountError(
+      'Invalid amount: expected a decimal string',
+      'amount',
+      amount
+    );
+  }
+  const decimals = scalingFactorToDecimals(scalingFactor);
+  const [whole, fraction = ''] = amount.trim().split('.');
+  const trimmedFraction = fraction.replace(/0+$/, '');
+  if (trimmedFraction.length > decimals) {
+    if (rounding) {
+      return new BigNumber(`${whole}.${trimmedFraction}`)
+        .shiftedBy(decimals)
+        .integerValue(rounding === 'up' ? BigNumber.ROUND_UP : BigNumber.ROUND_DOWN)
+        .toFixed();
+    }
+    throw new WalletInvalidAmountError(
+      `Invalid amount: at most ${decimals} decimal places are supported`,
+      'amount',
+      amount
+    );
+  }
+  return `${whole}${trimmedFraction.padEnd(decimals, '0')}`.replace(/^0+(?=\d)/, '');
+};
+
+/**
+ * Converts on-chain units back into a decimal string for display.
+ * `maxDecimals` truncates (never rounds up) the fractional part.
+ */
+export const formatTokenAmount = (
+  units: string | number | bigint,
+  scalingFactor: ScalingFactor,
+  { maxDecimals }: { maxDecimals?: number } = {}
+): string => {
+  const value = new BigNumber(units.toString());
+  if (!value.isInteger() || value.isNegative()) {
+    throw new WalletInvalidAmountError(
+      'Invalid units: expected a non-negative integer',
+      'units',
+      units
+    );
+  }
+  const decimals = scalingFactorToDecimals(scalingFactor);
+  const shifted = value.shiftedBy(-decimals);
+  return maxDecimals === undefined
+    ? shifted.toFixed()
+    : shifted.decimalPlaces(Math.min(maxDecimals, decimals), BigNumber.ROUND_DOWN).toFixed();
+};
@@ -1,4 +1,5 @@
 import { Types } from 'aptos';
+import { WalletAbortedError, WalletTimeoutError } from '../WalletProviders/errors';
 
 export const payloadV1ToV0 = (payload: Types.TransactionPayload) => {
   const v1 = payload as Types.TransactionPayload_EntryFunctionPayload;
@@ -9,3 +10,50 @@ export const payloadV1ToV0 = (payload: Types.TransactionPayload) => {
     arguments: v1.arguments
   };
 };
+
+/**
+ * Rejects with `WalletTimeoutError` unless `promise` settles within `timeout` ms, 0 disables it,
+ * and with `WalletAbortedError` as soon as `signal` aborts. The wallet request itself can't be
+ * cancelled, its late result is dropped.
+ */
+export const withTimeout = <T>(
+  promise: Promise<T>,
+  timeout: number,
+  operation: string,
+  signal?: AbortSignal
+): Promise<T> => {
+  if (signal?.aborted) {
+    promise.catch(() => undefined);
+    return Promise.reject(new WalletAbortedError(`${operation} was aborted`));
+  }
+  const hasTimeout = timeout > 0 && timeout !== Infinity;
+  if (!hasTimeout && !signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(new WalletAbortedError(`${operation} was aborted`));
+    };
+    if (hasTimeout) {
+      timer = setTimeout(() => {
+        signal?.removeEventListener('abort', handleAbort);
+        reject(new WalletTimeoutError(`${operation} timed out after ${timeout}ms`));
+      }, timeout);
+    }
+    signal?.addEventListener('abort', handleAbort, { once: true });
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    promise.then(
+      (value) => {
+        cleanup();
+        resolve(value);
+      },
+      (error) => {
+        cleanup();
+        reject(error);
+      }
+    );
+  });
+};
@@ -0,0 +1,70 @@
+import { AptosClient, Types } from 'aptos';
+import { WalletConfigError, WalletTimeoutError } from '../WalletProviders/errors';
+import { TransactionReceipt, WaitForTransactionOptions } from '../WalletAdapters/BaseAdapter';
+import { withTimeout } from './util';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Calls `fetchResult` until it resolves with something other than `undefined`,
+ * rejecting with `WalletTimeoutError` once `timeoutMs` has passed or `WalletAbortedError` on abort.
+ * A request still pending at the deadline is abandoned, its late result is dropped.
+ */
+export const pollForResult = async <T>(
+  fetchResult: () => Promise<T | undefined>,
+  {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+    signal
+  }: WaitForTransactionOptions = {}
+): Promise<T> => {
+  const deadline = Date.now() + timeoutMs;
+  const timedOut = () => new WalletTimeoutError(`Timed out after ${timeoutMs}ms`);
+  for (;;) {
+    // Each request gets what is left of timeoutMs, at least 1ms since 0 disables the bound
+    const remaining = Math.max(deadline - Date.now(), 1);
+    const result = await withTimeout(fetchResult(), remaining, 'waitForTransaction', signal).catch(
+      (error) => {
+        throw error instanceof WalletTimeoutError ? timedOut() : error;
+      }
+    );
+    if (result !== undefined) return result;
+    if (Date.now() + pollIntervalMs > deadline) throw timedOut();
+    await withTimeout(sleep(pollIntervalMs), 0, 'waitForTransaction', signal);
+  }
+};
+
+export const waitForAptosTransaction = async (
+  nodeUrl: string | undefined,
+  hash: Types.HexEncodedBytes,
+  options?: WaitForTransactionOptions
+): Promise<TransactionReceipt> => {
+  if (!nodeUrl) throw new WalletConfigError('No node url for the current network');
+  const client = new AptosClient(nodeUrl);
+  const txn = await pollForResult(async () => {
+    try {
+      const result = await client.getTransactionByHash(hash);
+      return result.type === 'pending_transaction' ? undefined : result;
+    } catch (error: any) {
+      // The node answers 404 until the transaction reaches its mempool
+      if (error?.status === 404) return undefined;
+      throw error;
+    }
+  }, options);
+  const userTxn = txn as Types.Transaction_UserTransaction;
+  return {
+    hash: userTxn.hash,
+    success: userTxn.success,
+    gasUsed: userTxn.gas_used,
+    vmStatus: userTxn.vm_status,
+    events: (userTxn.events || []).map((event) => ({
+      type: event.type,
+      key: `${event.guid.account_address}::${event.guid.creation_number}`,
+      sequenceNumber: event.sequence_number,
+      data: event.data
+    }))
+  };
+};
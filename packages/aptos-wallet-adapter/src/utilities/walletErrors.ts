@@ -0,0 +1,55 @@
+import {
+  WalletError,
+  WalletInsufficientBalanceError,
+  WalletLockedError,
+  WalletRpcError,
+  WalletUserRejectedError
+} from '../WalletProviders/errors';
+
+type WalletErrorClass = new (message?: string, error?: any) => WalletError;
+
+// EIP-1193 codes, which StarMask and Petra share, and the codes starcoin.js tags its errors with
+const USER_REJECTED_CODES: (number | string)[] = [4001, 'ACTION_REJECTED'];
+
+const LOCKED_CODES: (number | string)[] = [4100];
+
+const INSUFFICIENT_BALANCE_CODES: (number | string)[] = ['INSUFFICIENT_FUNDS'];
+
+// 4200 is an unsupported method, 4900 and 4901 mean the provider lost its node
+const RPC_CODES: (number | string)[] = [4200, 4900, 4901, 'SERVER_ERROR', 'NETWORK_ERROR'];
+
+// Martian and Pontem only report failures as messages
+const USER_REJECTED_REGEX =
+  /user (has )?(rejected|denied|cancell?ed)|rejected by (the )?user|user rejection/i;
+
+const LOCKED_REGEX = /\blocked\b/i;
+
+// `INSUFFICIENT_BALANCE` and `EINSUFFICIENT_BALANCE` are Move aborts, the rest node messages
+const INSUFFICIENT_BALANCE_REGEX = /insufficient[ _](balance|funds)/i;
+
+const isJsonRpcCode = (code: any) => typeof code === 'number' && code >= -32768 && code <= -32000;
+
+/**
+ * Maps a provider failure to the error class apps can act on, keeping the original in `.error`.
+ * Errors that are already a `WalletError` pass through, anything unrecognized becomes `Fallback`.
+ */
+export const toWalletError = (error: any, Fallback: WalletErrorClass): WalletError => {
+  if (error instanceof WalletError) return error;
+
+  const message = typeof error === 'string' ? error : error?.message || String(error);
+  // starcoin.js nests the provider's error under `error`
+  const code = error?.code ?? error?.error?.code;
+  if (USER_REJECTED_CODES.includes(code) || USER_REJECTED_REGEX.test(message)) {
+    return new WalletUserRejectedError(message, error);
+  }
+  if (LOCKED_CODES.includes(code) || LOCKED_REGEX.test(message)) {
+    return new WalletLockedError(message, error);
+  }
+  if (INSUFFICIENT_BALANCE_CODES.includes(code) || INSUFFICIENT_BALANCE_REGEX.test(message)) {
+    return new WalletInsufficientBalanceError(message, error);
+  }
+  if (RPC_CODES.includes(code) || isJsonRpcCode(code)) {
+    return new WalletRpcError(message, error, code);
+  }
+  return new Fallback(message, error);
+};
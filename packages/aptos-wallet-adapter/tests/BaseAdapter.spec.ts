@@ -0,0 +1,199 @@
+import {
+  WalletConnectionState,
+  WalletReadyState,
+  WalletStateChangeEvent
+} from '../src/WalletAdapters/BaseAdapter';
+import { AptosWalletAdapter } from '../src/WalletAdapters/PetraWallet';
+import {
+  AdapterConformanceTarget,
+  getBuiltInConformanceTargets,
+  MockWalletAdapter
+} from '../src/testing';
+import {
+  WalletConnectionStateError,
+  WalletError,
+  WalletUserRejectedError
+} from '../src/WalletProviders/errors';
+
+const { Disconnected, Connecting, Connected, Disconnecting, Error } = WalletConnectionState;
+
+// Opens up the state machine, which adapters only drive from the inside
+class StateMachineAdapter extends MockWalletAdapter {
+  moveTo(state: WalletConnectionState, error?: WalletError): void {
+    this.transition(state, error);
+  }
+
+  checkIdle(operation: 'connect' | 'disconnect'): void {
+    this.assertIdle(operation);
+  }
+
+  setState(state: WalletConnectionState): void {
+    this._connectionState = state;
+  }
+}
+
+const LEGAL_TRANSITIONS: [WalletConnectionState, WalletConnectionState][] = [
+  [Disconnected, Connecting],
+  [Disconnected, Connected],
+  [Connecting, Connected],
+  [Connecting, Error],
+  [Connected, Disconnecting],
+  [Connected, Disconnected],
+  [Disconnecting, Disconnected],
+  [Error, Connecting],
+  [Error, Connected],
+  [Error, Disconnected]
+];
+
+const ALL_STATES = [Disconnected, Connecting, Connected, Disconnecting, Error];
+
+const ILLEGAL_TRANSITIONS = ALL_STATES.flatMap((from) =>
+  ALL_STATES.filter(
+    (to) =>
+      to !== from &&
+      !LEGAL_TRANSITIONS.some(([legalFrom, legalTo]) => legalFrom === from && legalTo === to)
+  ).map((to): [WalletConnectionState, WalletConnectionState] => [from, to])
+);
+
+describe('connection state machine', () => {
+  let adapter: StateMachineAdapter;
+  let stateChanges: WalletStateChangeEvent[];
+
+  beforeEach(() => {
+    adapter = new StateMachineAdapter();
+    stateChanges = [];
+    adapter.on('stateChange', (event) => stateChanges.push(event));
+  });
+
+  it('starts disconnected', () => {
+    expect(adapter.connectionState).toBe(Disconnected);
+    expect(adapter.connecting).toBe(false);
+    expect(adapter.connected).toBe(false);
+  });
+
+  it.each(LEGAL_TRANSITIONS)('goes from %s to %s', (from, to) => {
+    adapter.setState(from);
+    const error = to === Error ? new WalletError('failed') : undefined;
+    adapter.moveTo(to, error);
+    expect(adapter.connectionState).toBe(to);
+    expect(stateChanges).toEqual([{ version: 1, state: to, previousState: from, error }]);
+  });
+
+  it.each(ILLEGAL_TRANSITIONS)('refuses to go from %s to %s', (from, to) => {
+    adapter.setState(from);
+    expect.assertions(4);
+    try {
+      adapter.moveTo(to);
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(WalletConnectionStateError);
+      expect(error.state).toBe(from);
+    }
+    expect(adapter.connectionState).toBe(from);
+    expect(stateChanges).toEqual([]);
+  });
+
+  it('ignores a transition to the current state', () => {
+    adapter.setState(Connected);
+    adapter.moveTo(Connected);
+    expect(stateChanges).toEqual([]);
+  });
+
+  it.each([Connecting, Disconnecting])('is busy while %s', (state) => {
+    adapter.setState(state);
+    expect(() => adapter.checkIdle('connect')).toThrow(`Cannot connect while ${state}`);
+    expect(() => adapter.checkIdle('disconnect')).toThrow(WalletConnectionStateError);
+  });
+
+  it.each([Disconnected, Connected, Error])('is idle while %s', (state) => {
+    adapter.setState(state);
+    expect(() => adapter.checkIdle('connect')).not.toThrow();
+    expect(() => adapter.checkIdle('disconnect')).not.toThrow();
+  });
+
+  it('reports every step of a connect and disconnect', async () => {
+    await adapter.connect();
+    await adapter.disconnect();
+    expect(stateChanges.map(({ previousState, state }) => [previousState, state])).toEqual([
+      [Disconnected, Connecting],
+      [Connecting, Connected],
+      [Connected, Disconnecting],
+      [Disconnecting, Disconnected]
+    ]);
+  });
+
+  it('rejects an overlapping connect and disconnect', async () => {
+    adapter.setDelay('connect', 20);
+    adapter.on('error', () => undefined);
+    const connecting = adapter.connect();
+    await expect(adapter.connect()).rejects.toBeInstanceOf(WalletConnectionStateError);
+    await expect(adapter.disconnect()).rejects.toBeInstanceOf(WalletConnectionStateError);
+    await connecting;
+    expect(adapter.connectionState).toBe(Connected);
+  });
+
+  it('fails a rejected connect into Error and can connect again', async () => {
+    const error = new WalletUserRejectedError('User rejected the request');
+    adapter.rejectConnect(error);
+    adapter.on('error', () => undefined);
+    await expect(adapter.connect()).rejects.toBe(error);
+    expect(adapter.connectionState).toBe(Error);
+    expect(stateChanges[stateChanges.length - 1].error).toBe(error);
+
+    adapter.approveConnect();
+    await adapter.connect();
+    expect(adapter.connectionState).toBe(Connected);
+  });
+});
+
+describe('provider subscriptions', () => {
+  // Petra has no API to detach an account listener
+  const petra = getBuiltInConformanceTargets().find(
+    ({ name }) => name === 'Petra'
+  ) as AdapterConformanceTarget;
+
+  afterEach(() => {
+    petra.uninstall();
+  });
+
+  it('reuses a listener the wallet cannot detach when subscribing again', async () => {
+    const extension = petra.install(petra.accounts[0]);
+    const onAccountChange = jest.spyOn((window as any).aptos, 'onAccountChange');
+    const adapter = petra.createAdapter();
+    const accountChanges = jest.fn();
+    adapter.on('accountChange', accountChanges);
+
+    await adapter.connect();
+    await adapter.onAccountChange();
+    await adapter.disconnect();
+    extension.switchAccount(petra.accounts[1]);
+    expect(accountChanges).not.toHaveBeenCalled();
+
+    await adapter.connect();
+    await adapter.onAccountChange();
+    expect(onAccountChange).toHaveBeenCalledTimes(1);
+    extension.switchAccount(petra.accounts[0]);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(accountChanges).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('wallet detection', () => {
+  afterEach(() => {
+    delete (window as any).aptos;
+  });
+
+  it.each(['on', 'addListener', 'once'] as const)(
+    'resumes after dispose when a listener is added with %s',
+    async (method) => {
+      const adapter = new AptosWalletAdapter({ detection: { initialIntervalMs: 5 } });
+      adapter.dispose();
+      (window as any).aptos = {};
+
+      const readyState = await new Promise<WalletReadyState>((resolve) => {
+        adapter[method]('readyStateChange', resolve);
+      });
+      expect(readyState).toBe(WalletReadyState.Installed);
+      adapter.dispose();
+    }
+  );
+});
@@ -0,0 +1,154 @@
+import { act } from 'react-dom/test-utils';
+import { WalletAdapterNetwork, WalletConnectionState } from '../src/WalletAdapters/BaseAdapter';
+import { MockWalletAdapter } from '../src/testing';
+import {
+  WalletNotSupportedError,
+  WalletTimeoutError,
+  WalletUserRejectedError
+} from '../src/WalletProviders/errors';
+import { renderWalletProvider } from './renderWalletProvider';
+
+const OTHER_ACCOUNT = { address: '0x2', publicKey: '0x2', authKey: '0x2' };
+
+const PAYLOAD = {
+  type: 'entry_function_payload',
+  function: '0x1::coin::transfer',
+  type_arguments: ['0x1::aptos_coin::AptosCoin'],
+  arguments: ['0x2', '1']
+};
+
+describe('MockWalletAdapter through useWallet', () => {
+  let mock: MockWalletAdapter;
+  let onError: jest.Mock;
+  let wallet: ReturnType<typeof renderWalletProvider>;
+
+  const connect = async () => {
+    await act(async () => {
+      await wallet.current().connect(mock.name);
+    });
+    await wallet.waitFor(({ connected }) => connected);
+  };
+
+  beforeEach(() => {
+    mock = new MockWalletAdapter({ signature: '0xsigned', delayMs: 5 });
+    onError = jest.fn();
+    wallet = renderWalletProvider([mock], { onError });
+  });
+
+  afterEach(() => {
+    wallet.unmount();
+    localStorage.clear();
+  });
+
+  it('connects and exposes the account and network', async () => {
+    expect(wallet.current().wallets.map(({ adapter }) => adapter)).toEqual([mock]);
+    await connect();
+
+    const state = wallet.current();
+    expect(state.wallet?.adapter).toBe(mock);
+    expect(state.connectionState).toBe(WalletConnectionState.Connected);
+    expect(state.account).toEqual(mock.publicAccount);
+    expect(state.network).toEqual({ name: WalletAdapterNetwork.Devnet });
+    expect(mock.calls.map(({ method }) => method)).toEqual(['connect']);
+  });
+
+  it('records calls made through the hook', async () => {
+    await connect();
+
+    await act(async () => {
+      expect(await wallet.current().signMessage('hello')).toBe('0xsigned');
+      expect(await wallet.current().signAndSubmitTransaction(PAYLOAD)).toEqual({
+        hash: '0xmocktransactionhash'
+      });
+    });
+    expect(mock.calls.slice(1)).toEqual([
+      { method: 'signMessage', args: ['hello', undefined] },
+      { method: 'signAndSubmitTransaction', args: [PAYLOAD, undefined] }
+    ]);
+  });
+
+  it('surfaces a rejected connect and connects once approved', async () => {
+    const error = new WalletUserRejectedError('User rejected the request');
+    mock.rejectConnect(error);
+    await act(async () => {
+      await expect(wallet.current().connect(mock.name)).rejects.toBe(error);
+    });
+    expect(onError).toHaveBeenCalledWith(error);
+    expect(wallet.current().connected).toBe(false);
+
+    mock.approveConnect();
+    await connect();
+  });
+
+  it('surfaces injected errors and delays', async () => {
+    await connect();
+
+    const error = new WalletUserRejectedError('User rejected the request');
+    mock.setError('signMessage', error);
+    mock.setDelay('signAndSubmitTransaction', 50);
+    await act(async () => {
+      await expect(wallet.current().signMessage('hello')).rejects.toBe(error);
+      await expect(
+        wallet.current().signAndSubmitTransaction(PAYLOAD, { timeout: 10 })
+      ).rejects.toBeInstanceOf(WalletTimeoutError);
+    });
+
+    mock.reset();
+    await act(async () => {
+      expect(await wallet.current().signMessage('hello')).toBe('0xsigned');
+    });
+    expect(mock.calls).toEqual([{ method: 'signMessage', args: ['hello', undefined] }]);
+  });
+
+  it('reports the features it is configured without', async () => {
+    wallet.unmount();
+    mock = new MockWalletAdapter({ name: 'Limited', features: { signMessage: false } });
+    wallet = renderWalletProvider([mock], { onError });
+    await connect();
+
+    expect(wallet.current().features?.signMessage).toBe(false);
+    await act(async () => {
+      await expect(wallet.current().signMessage('hello')).rejects.toBeInstanceOf(
+        WalletNotSupportedError
+      );
+    });
+    expect(mock.calls.map(({ method }) => method)).toEqual(['connect']);
+  });
+
+  it('follows simulated account and network changes', async () => {
+    await connect();
+
+    act(() => {
+      mock.simulateAccountChange(OTHER_ACCOUNT);
+    });
+    await wallet.waitFor(({ account }) => account?.address === OTHER_ACCOUNT.address);
+
+    act(() => {
+      mock.simulateNetworkChange({ name: WalletAdapterNetwork.Testnet, chainId: '2' });
+    });
+    await wallet.waitFor(({ network }) => network.name === WalletAdapterNetwork.Testnet);
+    expect(wallet.current().network.chainId).toBe('2');
+  });
+
+  it('keeps the wallet selected when it disconnects itself', async () => {
+    await connect();
+
+    act(() => {
+      mock.simulateDisconnect();
+    });
+    await wallet.waitFor(({ connected }) => !connected);
+    expect(wallet.current().wallet?.adapter).toBe(mock);
+    expect(wallet.current().account).toBeNull();
+    expect(mock.calls.map(({ method }) => method)).toEqual(['connect']);
+  });
+
+  it('clears the selection on disconnect()', async () => {
+    await connect();
+
+    await act(async () => {
+      await wallet.current().disconnect();
+    });
+    await wallet.waitFor(({ wallet: selected }) => !selected);
+    expect(mock.calls.map(({ method }) => method)).toEqual(['connect', 'disconnect']);
+  });
+});
@@ -0,0 +1,52 @@
+import { WalletAccountChangeError } from '../src/WalletProviders/errors';
+import { AdapterConformanceTarget, getBuiltInConformanceTargets } from '../src/testing';
+
+const target = getBuiltInConformanceTargets().find(
+  ({ name }) => name === 'Pontem'
+) as AdapterConformanceTarget;
+
+describe('PontemWalletAdapter', () => {
+  afterEach(() => {
+    target.uninstall();
+  });
+
+  it('emits a failed account change instead of rejecting in the listener', async () => {
+    const extension = target.install(target.accounts[0]);
+    const adapter = target.createAdapter();
+    const errors: Error[] = [];
+    adapter.on('error', (error) => errors.push(error));
+    const unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+
+    try {
+      await adapter.connect();
+      await adapter.onAccountChange();
+      (window as any).pontem.publicKey = () => Promise.reject(new Error('Pontem is busy'));
+      extension.switchAccount(target.accounts[1]);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(unhandled).not.toHaveBeenCalled();
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toBeInstanceOf(WalletAccountChangeError);
+      expect(errors[0].message).toBe('Pontem is busy');
+      expect(adapter.connected).toBe(true);
+    } finally {
+      process.off('unhandledRejection', unhandled);
+    }
+  });
+
+  it('ends the session when the wallet locks', async () => {
+    const extension = target.install(target.accounts[0]);
+    const adapter = target.createAdapter();
+    const disconnects = jest.fn();
+    adapter.on('disconnect', disconnects);
+
+    await adapter.connect();
+    await adapter.onAccountChange();
+    extension.switchAccount(null);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(adapter.connected).toBe(false);
+    expect(disconnects).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  WalletAdapter,
+  WalletAdapterNetwork,
+  WalletConnectionState,
+  WalletNetworkEvent
+} from '../src/WalletAdapters/BaseAdapter';
+import { StarcoinWalletAdapter } from '../src/WalletAdapters/StarcoinWallet';
+import {
+  WalletAbortedError,
+  WalletNotSupportedError,
+  WalletTimeoutError
+} from '../src/WalletProviders/errors';
+import { AdapterConformanceTarget, getBuiltInConformanceTargets } from '../src/testing';
+
+const target = getBuiltInConformanceTargets().find(
+  ({ name }) => name === 'Starcoin'
+) as AdapterConformanceTarget;
+
+const connectToFake = async () => {
+  target.install(target.accounts[0]);
+  const adapter = target.createAdapter() as StarcoinWalletAdapter;
+  adapter.on('error', () => undefined);
+  await adapter.connect();
+  return adapter;
+};
+
+// StarMask never answers `stc_getPublicKey`
+const hangKeyLookup = () => {
+  const provider = (window as any).starcoin;
+  const { request } = provider;
+  provider.request = (args: { method: string }) =>
+    args.method === 'stc_getPublicKey' ? new Promise(() => undefined) : request(args);
+};
+
+describe('StarcoinWalletAdapter', () => {
+  afterEach(() => {
+    target.uninstall();
+    jest.restoreAllMocks();
+  });
+
+  it('submits a simulated transaction with the estimated gas limit', async () => {
+    const adapter = await connectToFake();
+    jest
+      .spyOn(adapter, 'estimateTransaction')
+      .mockResolvedValue({ gasUsed: '200000', maxGasAmount: '300000', vmStatus: 'Executed' });
+    // starcoin.js sends through the legacy `sendAsync`
+    const request = jest.spyOn((window as any).starcoin, 'sendAsync');
+
+    const { hash } = await adapter.signAndSubmitTransaction(target.transaction, {
+      simulate: true
+    });
+
+    expect(hash).toMatch(/^0x[0-9a-f]{64}$/);
+    const [payload] = request.mock.calls
+      .map(([call]: any[]) => call)
+      .filter(({ method }) => method === 'stc_sendTransaction');
+    expect(payload.params[0].gas).toBe('0x493e0');
+  });
+
+  it('times out a connect stuck on the public key lookup', async () => {
+    target.install(target.accounts[0]);
+    hangKeyLookup();
+    const adapter = target.createAdapter();
+    adapter.on('error', () => undefined);
+
+    await expect(adapter.connect({ timeout: 50 })).rejects.toBeInstanceOf(WalletTimeoutError);
+    expect(adapter.connectionState).toBe(WalletConnectionState.Error);
+  });
+
+  it('aborts a connect during the public key lookup and connects again', async () => {
+    target.install(target.accounts[0]);
+    const { request } = (window as any).starcoin;
+    hangKeyLookup();
+    const adapter = target.createAdapter();
+    adapter.on('error', () => undefined);
+    const controller = new AbortController();
+
+    const connecting = adapter.connect({ timeout: 0, signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+    await expect(connecting).rejects.toBeInstanceOf(WalletAbortedError);
+    expect(adapter.connectionState).toBe(WalletConnectionState.Error);
+
+    (window as any).starcoin.request = request;
+    await adapter.connect();
+    expect(adapter.connected).toBe(true);
+  });
+
+  it('reports the chain id in decimal like the other adapters', async () => {
+    target.install(target.accounts[0]);
+    const on = jest.spyOn((window as any).starcoin, 'on');
+    const adapter = target.createAdapter();
+    await adapter.connect();
+    expect(adapter.network).toMatchObject({ name: WalletAdapterNetwork.Barnard, chainId: '251' });
+
+    const networkChanges: WalletNetworkEvent[] = [];
+    adapter.on('networkChange', (event) => networkChanges.push(event));
+    await adapter.onNetworkChange();
+    const [, emitNetworkChanged] = on.mock.calls.find(([event]) => event === 'networkChanged') as [
+      string,
+      (network: string) => void
+    ];
+    // StarMask reports the new network as a hex chain id
+    emitNetworkChanged('0x1');
+    expect(networkChanges.map(({ network }) => network.chainId)).toEqual(['1']);
+    expect(adapter.network.name).toBe(WalletAdapterNetwork.Main);
+  });
+
+  it('declines signTransaction without asking StarMask', async () => {
+    const adapter = await connectToFake();
+    const request = jest.spyOn((window as any).starcoin, 'sendAsync');
+
+    expect(adapter.features.signTransaction).toBe(false);
+    await expect(
+      (adapter as WalletAdapter).signTransaction(target.transaction)
+    ).rejects.toBeInstanceOf(WalletNotSupportedError);
+    expect(request).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,59 @@
+import { act } from 'react-dom/test-utils';
+import { AdapterConformanceTarget, getBuiltInConformanceTargets } from '../src/testing';
+import { renderWalletProvider } from './renderWalletProvider';
+
+const target = getBuiltInConformanceTargets().find(
+  ({ name }) => name === 'Starcoin'
+) as AdapterConformanceTarget;
+
+describe('WalletProvider', () => {
+  afterEach(() => {
+    target.uninstall();
+    localStorage.clear();
+  });
+
+  it('keeps a locked Starcoin wallet selected and reconnects it on unlock', async () => {
+    const [account] = target.accounts;
+    const extension = target.install(account);
+    const adapter = target.createAdapter();
+    const wallet = renderWalletProvider([adapter]);
+
+    await act(async () => {
+      await wallet.current().connect(adapter.name);
+    });
+    await wallet.waitFor(({ connected }) => connected);
+
+    act(() => {
+      extension.switchAccount(null);
+    });
+    await wallet.waitFor(({ connected }) => !connected);
+    expect(wallet.current().wallet?.adapter).toBe(adapter);
+    expect(wallet.current().account).toBeNull();
+
+    act(() => {
+      extension.switchAccount(account);
+    });
+    await wallet.waitFor(({ connected }) => connected);
+    expect(wallet.current().account?.address).toBe(account.address);
+
+    wallet.unmount();
+  });
+
+  it('clears the selection on disconnect()', async () => {
+    target.install(target.accounts[0]);
+    const adapter = target.createAdapter();
+    const wallet = renderWalletProvider([adapter]);
+
+    await act(async () => {
+      await wallet.current().connect(adapter.name);
+    });
+    await wallet.waitFor(({ connected }) => connected);
+    await act(async () => {
+      await wallet.current().disconnect();
+    });
+    await wallet.waitFor(({ wallet: selected }) => !selected);
+    expect(adapter.connected).toBe(false);
+
+    wallet.unmount();
+  });
+});
@@ -0,0 +1,7 @@
+import { assertAdapterConformance, getBuiltInConformanceTargets } from '../src/testing';
+
+describe('adapter conformance', () => {
+  it.each(getBuiltInConformanceTargets())('$name conforms to BaseWalletAdapter', async (target) => {
+    await assertAdapterConformance(target);
+  });
+});
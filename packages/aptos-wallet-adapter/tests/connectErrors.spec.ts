@@ -0,0 +1,51 @@
+import { WalletConnectionState } from '../src/WalletAdapters/BaseAdapter';
+import { WalletGetNetworkError } from '../src/WalletProviders/errors';
+import { getBuiltInConformanceTargets } from '../src/testing';
+
+const networkFailure = () => Promise.reject(new Error('Network unavailable'));
+
+const failAptosNetwork = (provider: any) => {
+  provider.network = networkFailure;
+};
+
+// Makes each fake extension fail the network lookup connect does after the account prompt
+const FAIL_NETWORK: { [name: string]: (provider: any) => void } = {
+  Petra: failAptosNetwork,
+  Martian: failAptosNetwork,
+  Pontem: failAptosNetwork,
+  Starcoin: (provider) => {
+    const { request } = provider;
+    provider.request = (args: { method: string }) =>
+      args.method === 'chain.id' ? networkFailure() : request(args);
+  }
+};
+
+const PROVIDER_KEYS: { [name: string]: string } = {
+  Petra: 'aptos',
+  Martian: 'martian',
+  Pontem: 'pontem',
+  Starcoin: 'starcoin'
+};
+
+describe('connect', () => {
+  it.each(getBuiltInConformanceTargets())(
+    '$name emits a failed network lookup once',
+    async (target) => {
+      target.install(target.accounts[0]);
+      FAIL_NETWORK[target.name]((window as any)[PROVIDER_KEYS[target.name]]);
+      const adapter = target.createAdapter();
+      const errors: Error[] = [];
+      adapter.on('error', (error) => errors.push(error));
+
+      try {
+        await expect(adapter.connect()).rejects.toBeInstanceOf(WalletGetNetworkError);
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toBeInstanceOf(WalletGetNetworkError);
+        expect(errors[0].message).toBe('Network unavailable');
+        expect(adapter.connectionState).toBe(WalletConnectionState.Error);
+      } finally {
+        target.uninstall();
+      }
+    }
+  );
+});
@@ -0,0 +1,187 @@
+import { Types } from 'aptos';
+import {
+  isValidAddress,
+  normalizeAddress,
+  normalizeFunctionId,
+  validateTransactionPayload
+} from '../src/utilities/payloadValidation';
+import {
+  WalletInvalidAddressError,
+  WalletInvalidAmountError,
+  WalletInvalidArgumentsError,
+  WalletPayloadError
+} from '../src/WalletProviders/errors';
+
+const APTOS_ADDRESS = `0x${'a'.repeat(64)}`;
+
+const STARCOIN_ADDRESS = `0x${'b'.repeat(32)}`;
+
+const entryFunction = (
+  functionId: string,
+  args: any[] = [],
+  typeArgs: string[] = []
+): Types.TransactionPayload => ({
+  type: 'entry_function_payload',
+  function: functionId,
+  type_arguments: typeArgs,
+  arguments: args
+});
+
+const validArguments = (payload: Types.TransactionPayload) =>
+  (payload as Types.TransactionPayload_EntryFunctionPayload).arguments;
+
+describe('isValidAddress', () => {
+  it('accepts up to 32 bytes on Aptos and 16 bytes on Starcoin', () => {
+    expect(isValidAddress(APTOS_ADDRESS)).toBe(true);
+    expect(isValidAddress(APTOS_ADDRESS, 'starcoin')).toBe(false);
+    expect(isValidAddress(STARCOIN_ADDRESS, 'starcoin')).toBe(true);
+    expect(isValidAddress(STARCOIN_ADDRESS, 'aptos')).toBe(true);
+    expect(isValidAddress(`0x${'c'.repeat(33)}`, 'starcoin')).toBe(false);
+    expect(isValidAddress(`0x${'c'.repeat(65)}`)).toBe(false);
+  });
+
+  it('accepts short addresses with or without the prefix', () => {
+    expect(isValidAddress('0x1', 'starcoin')).toBe(true);
+    expect(isValidAddress('B'.repeat(32), 'starcoin')).toBe(true);
+  });
+
+  it.each(['', '0x', '0xg1', 'x1', 1, null])('rejects %p', (address) => {
+    expect(isValidAddress(address)).toBe(false);
+    expect(isValidAddress(address, 'starcoin')).toBe(false);
+  });
+});
+
+describe('normalizeAddress and normalizeFunctionId', () => {
+  it('adds the 0x prefix', () => {
+    expect(normalizeAddress('1')).toBe('0x1');
+    expect(normalizeAddress('0x1')).toBe('0x1');
+  });
+
+  it('strips leading zeros and lowercases the function address', () => {
+    expect(normalizeFunctionId('0x00000000000000000000000000000001::coin::transfer')).toBe(
+      '0x1::coin::transfer'
+    );
+    expect(normalizeFunctionId('0xAB::Mod::f')).toBe('0xab::Mod::f');
+    expect(normalizeFunctionId('0x0::Mod::f')).toBe('0x0::Mod::f');
+    expect(normalizeFunctionId('not a function')).toBe('not a function');
+  });
+});
+
+describe('validateTransactionPayload', () => {
+  it('passes payloads without a function through', () => {
+    const payload = { type: 'script_payload', code: { bytecode: '0x' } } as any;
+    expect(validateTransactionPayload(payload)).toBe(payload);
+  });
+
+  it.each([null, 'payload', 1])('rejects %p', (payload) => {
+    expect(() => validateTransactionPayload(payload as any)).toThrow(WalletPayloadError);
+  });
+
+  it.each(['transfer', '0x1::coin', '1::coin::transfer', '0x1::coin::transfer::extra'])(
+    'rejects the function %p',
+    (functionId) => {
+      expect(() => validateTransactionPayload(entryFunction(functionId))).toThrow(
+        'expected `address::module::name`'
+      );
+    }
+  );
+
+  it('checks the function address against the chain', () => {
+    const payload = entryFunction(`${APTOS_ADDRESS}::Module::run`);
+    expect(validateTransactionPayload(payload)).toEqual(payload);
+    expect(() => validateTransactionPayload(payload, undefined, 'starcoin')).toThrow(
+      WalletPayloadError
+    );
+  });
+
+  it('rejects malformed type arguments and arguments', () => {
+    expect(() =>
+      validateTransactionPayload({ ...entryFunction('0x1::M::f'), type_arguments: [1] } as any)
+    ).toThrow(WalletInvalidArgumentsError);
+    expect(() =>
+      validateTransactionPayload({ ...entryFunction('0x1::M::f'), arguments: 'a' } as any)
+    ).toThrow(WalletInvalidArgumentsError);
+  });
+
+  it('leaves arguments of unknown functions unchecked', () => {
+    const payload = entryFunction('0x1::M::f', ['anything', -1, { nested: true }]);
+    expect(validateTransactionPayload(payload)).toBe(payload);
+  });
+
+  describe('known functions', () => {
+    it('checks and prefixes Starcoin peer_to_peer_v2 arguments', () => {
+      const payload = entryFunction('0x00000001::TransferScripts::peer_to_peer_v2', [
+        'b'.repeat(32),
+        '340282366920938463463374607431768211455'
+      ]);
+      expect(validArguments(validateTransactionPayload(payload, undefined, 'starcoin'))).toEqual([
+        STARCOIN_ADDRESS,
+        '340282366920938463463374607431768211455'
+      ]);
+    });
+
+    it('rejects an Aptos sized recipient on Starcoin', () => {
+      const payload = entryFunction('0x1::TransferScripts::peer_to_peer_v2', [APTOS_ADDRESS, '1']);
+      expect(() => validateTransactionPayload(payload, undefined, 'starcoin')).toThrow(
+        WalletInvalidAddressError
+      );
+    });
+
+    it('rejects a u128 overflow', () => {
+      const payload = entryFunction('0x1::TransferScripts::peer_to_peer_v2', [
+        STARCOIN_ADDRESS,
+        '340282366920938463463374607431768211456'
+      ]);
+      expect(() => validateTransactionPayload(payload, undefined, 'starcoin')).toThrow(
+        WalletInvalidAmountError
+      );
+    });
+
+    it.each(['0x1::coin::transfer', '0x1::aptos_account::transfer'])(
+      'checks %s arguments as an address and a u64',
+      (functionId) => {
+        expect(
+          validArguments(validateTransactionPayload(entryFunction(functionId, [APTOS_ADDRESS, 5])))
+        ).toEqual([APTOS_ADDRESS, 5]);
+        expect(() =>
+          validateTransactionPayload(
+            entryFunction(functionId, [APTOS_ADDRESS, '18446744073709551616'])
+          )
+        ).toThrow('fits in u64');
+        expect(() => validateTransactionPayload(entryFunction(functionId, ['0xz', '1']))).toThrow(
+          WalletInvalidAddressError
+        );
+      }
+    );
+
+    it.each([['-1'], ['1.5'], ['abc'], [null]])('rejects the amount %p', (amount) => {
+      expect(() =>
+        validateTransactionPayload(entryFunction('0x1::coin::transfer', [APTOS_ADDRESS, amount]))
+      ).toThrow(WalletInvalidAmountError);
+    });
+
+    it('rejects the wrong number of arguments', () => {
+      expect(() =>
+        validateTransactionPayload(entryFunction('0x1::coin::transfer', [APTOS_ADDRESS]))
+      ).toThrow('expects 2 arguments, got 1');
+    });
+  });
+
+  it('uses the argument kinds it is given', () => {
+    const payload = entryFunction('0x1::M::f', ['1', true, 255]);
+    expect(validArguments(validateTransactionPayload(payload, ['address', 'bool', 'u8']))).toEqual([
+      '0x1',
+      true,
+      255
+    ]);
+    expect(() => validateTransactionPayload(payload, ['address', 'bool', 'bool'])).toThrow(
+      'expected a boolean'
+    );
+    expect(() => validateTransactionPayload(entryFunction('0x1::M::f', [256]), ['u8'])).toThrow(
+      'fits in u8'
+    );
+    expect(
+      validArguments(validateTransactionPayload(entryFunction('0x1::M::f', [{}]), ['any']))
+    ).toEqual([{}]);
+  });
+});
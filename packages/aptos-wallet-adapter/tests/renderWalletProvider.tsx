@@ -0,0 +1,46 @@
+import { render, unmountComponentAtNode } from 'react-dom';
+import { act } from 'react-dom/test-utils';
+import { WalletAdapter } from '../src/WalletAdapters/BaseAdapter';
+import { WalletProvider, WalletProviderProps } from '../src/WalletProviders/WalletProvider';
+import { useWallet, WalletContextState } from '../src/WalletProviders/useWallet';
+
+export interface RenderedWalletProvider {
+  // The latest `useWallet()` value
+  current(): WalletContextState;
+  // Resolves once `predicate` holds for the latest `useWallet()` value
+  waitFor(predicate: (wallet: WalletContextState) => boolean, timeoutMs?: number): Promise<void>;
+  unmount(): void;
+}
+
+export const renderWalletProvider = (
+  wallets: WalletAdapter[],
+  props: Omit<WalletProviderProps, 'wallets' | 'children'> = {}
+): RenderedWalletProvider => {
+  let latest: WalletContextState;
+  const Consumer = () => {
+    latest = useWallet();
+    return null;
+  };
+  const container = document.createElement('div');
+  act(() => {
+    render(
+      <WalletProvider wallets={wallets} onError={() => undefined} {...props}>
+        <Consumer />
+      </WalletProvider>,
+      container
+    );
+  });
+
+  return {
+    current: () => latest,
+    waitFor: async (predicate, timeoutMs = 1000) => {
+      const deadline = Date.now() + timeoutMs;
+      while (!predicate(latest)) {
+        if (Date.now() > deadline) throw new Error('Timed out waiting for the wallet context');
+        // eslint-disable-next-line no-await-in-loop
+        await act(() => new Promise((resolve) => setTimeout(resolve, 10)));
+      }
+    },
+    unmount: () => act(() => void unmountComponentAtNode(container))
+  };
+};
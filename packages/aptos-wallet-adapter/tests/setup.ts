@@ -0,0 +1,4 @@
+import { TextDecoder, TextEncoder } from 'util';
+
+// jsdom lacks the encoding API that starcoin.js uses as soon as it loads
+Object.assign(global, { TextDecoder, TextEncoder });
@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { StarcoinReadClient } from '../src/utilities/starcoinReadClient';
+
+const ADDRESS = '0x3f19d5422824f47e6c021978cee98f35';
+
+const STC = '0x00000000000000000000000000000001::STC::STC';
+
+// Answers like a Starcoin node, with a head block the test moves forward
+class StandInNode {
+  head = 1;
+
+  balance = 100;
+
+  requests: { method: string; params: any[] }[] = [];
+
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      this.requests.push({ method, params });
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ id, jsonrpc: '2.0', result: this.respond(method) }));
+    });
+  });
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  count(method: string): number {
+    return this.requests.filter((request) => request.method === method).length;
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve) => {
+      this.server.listen(0, '127.0.0.1', resolve);
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => {
+      this.server.close(() => resolve());
+    });
+  }
+
+  protected respond(method: string): any {
+    switch (method) {
+      case 'chain.id':
+        return { id: 251, name: 'barnard' };
+      case 'chain.info':
+        return { chain_id: 251, head: { number: this.head.toString() } };
+      case 'state.get_resource':
+        return { json: { token: { value: this.balance } } };
+      default:
+        return null;
+    }
+  }
+}
+
+// Providers detect their network in the background, give those requests time to arrive
+const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+describe('StarcoinReadClient', () => {
+  let node: StandInNode;
+
+  beforeEach(async () => {
+    node = new StandInNode();
+    await node.listen();
+  });
+
+  afterEach(() => node.close());
+
+  it('sends a request once per block, however often it is read', async () => {
+    const client = new StarcoinReadClient({ nodeUrl: node.url, blockTtlMs: 60000 });
+
+    const balances = await Promise.all([
+      client.getBalance(ADDRESS, STC),
+      client.getBalance(ADDRESS, STC),
+      client.isTokenAccepted(ADDRESS, STC)
+    ]);
+    expect(balances).toEqual(['100', '100', true]);
+    expect(await client.getBalance(ADDRESS, STC)).toBe('100');
+    await settle();
+
+    // Besides the head block and the resource only the provider's network detection, once
+    expect(node.requests.map(({ method }) => method).sort()).toEqual([
+      'chain.id',
+      'chain.info',
+      'state.get_resource'
+    ]);
+  });
+
+  it('reads again once the chain moves to a new block', async () => {
+    const client = new StarcoinReadClient({ nodeUrl: node.url, blockTtlMs: 0 });
+
+    expect(await client.getBalance(ADDRESS, STC)).toBe('100');
+    await settle();
+    expect(node.requests).toHaveLength(3);
+    node.balance = 250;
+    // Same block, so only the head is fetched and the cached balance is still served
+    expect(await client.getBalance(ADDRESS, STC)).toBe('100');
+    expect(node.requests).toHaveLength(4);
+
+    node.head = 2;
+    expect(await client.getBalance(ADDRESS, STC)).toBe('250');
+    await settle();
+    expect(node.requests.slice(4).map(({ method }) => method)).toEqual([
+      'chain.info',
+      'state.get_resource'
+    ]);
+  });
+
+  it('trusts the head block for blockTtlMs', async () => {
+    const client = new StarcoinReadClient({ nodeUrl: node.url, blockTtlMs: 60000 });
+
+    expect(await client.getBalance(ADDRESS, STC)).toBe('100');
+    node.head = 2;
+    node.balance = 250;
+    expect(await client.getBalance(ADDRESS, STC)).toBe('100');
+    expect(node.count('chain.info')).toBe(1);
+  });
+});
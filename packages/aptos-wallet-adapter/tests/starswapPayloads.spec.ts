@@ -0,0 +1,226 @@
+import { WalletAdapterNetwork } from '../src/WalletAdapters/BaseAdapter';
+import {
+  STARSWAP_DEFAULT_DEADLINE_SECS,
+  getStarswapAddress
+} from '../src/config/starswapConstants';
+import {
+  applySlippage,
+  buildAddLiquidityTransaction,
+  buildClaimRewardsTransaction,
+  buildFarmStakeTransaction,
+  buildFarmUnstakeTransaction,
+  buildRemoveLiquidityTransaction,
+  buildSwapExactInTransaction,
+  buildSwapExactOutTransaction,
+  getLiquidityTokenType
+} from '../src/utilities/starswapPayloads';
+import { tokenAmount } from '../src/utilities/tokenAmount';
+import {
+  WalletConfigError,
+  WalletInvalidAmountError,
+  WalletInvalidArgumentsError
+} from '../src/WalletProviders/errors';
+
+const MAIN_ADDRESS = '0x8c109349c6bd91411d6bc962e080c4a3';
+
+const BARNARD_ADDRESS = '0x4783d08fb16990bd35d83f3e23bf93b8';
+
+const STC = '0x00000000000000000000000000000001::STC::STC';
+
+const STAR = `${MAIN_ADDRESS}::STAR::STAR`;
+
+describe('getStarswapAddress', () => {
+  it('returns the deployment for Main and Barnard', () => {
+    expect(getStarswapAddress(WalletAdapterNetwork.Main)).toBe(MAIN_ADDRESS);
+    expect(getStarswapAddress(WalletAdapterNetwork.Barnard)).toBe(BARNARD_ADDRESS);
+    expect(getStarswapAddress('Barnard')).toBe(BARNARD_ADDRESS);
+  });
+
+  it('defaults to Main and knows no other network', () => {
+    expect(getStarswapAddress()).toBe(MAIN_ADDRESS);
+    expect(getStarswapAddress(WalletAdapterNetwork.Halley)).toBeUndefined();
+  });
+});
+
+describe('applySlippage', () => {
+  it('lowers minimums and raises maximums by the basis points', () => {
+    expect(applySlippage('100', 50, 'down')).toBe('99.5');
+    expect(applySlippage('100', 50, 'up')).toBe('100.5');
+    expect(applySlippage('0.000000001', 100, 'down')).toBe('0.00000000099');
+  });
+
+  it('rounds on-chain units in the direction of the bound', () => {
+    expect(applySlippage(BigInt(1001), 50, 'down')).toBe(BigInt(995));
+    expect(applySlippage(BigInt(1001), 50, 'up')).toBe(BigInt(1007));
+    expect(applySlippage(BigInt(1), 1, 'up')).toBe(BigInt(2));
+    expect(applySlippage(BigInt(1), 1, 'down')).toBe(BigInt(0));
+  });
+
+  it('keeps the amount at zero slippage and allows the full range', () => {
+    expect(applySlippage(BigInt(1000), 0, 'down')).toBe(BigInt(1000));
+    expect(applySlippage('1000', 10000, 'down')).toBe('0');
+    expect(applySlippage('1000', 10000, 'up')).toBe('2000');
+  });
+
+  it('stays exact for u128 sized amounts', () => {
+    const max = BigInt('340282366920938463463374607431768211455');
+    expect(applySlippage(max, 50, 'down')).toBe(BigInt('338580955086333771146057734394609370397'));
+    expect(applySlippage(max, 0, 'up')).toBe(max);
+  });
+
+  it.each([-1, 10001, 0.5, NaN])('rejects slippageBps %p', (slippageBps) => {
+    expect(() => applySlippage('1', slippageBps, 'down')).toThrow(WalletInvalidArgumentsError);
+  });
+
+  it.each(['-1', BigInt(-1), 'abc'])('rejects amount %p', (amount) => {
+    expect(() => applySlippage(amount, 50, 'down')).toThrow(WalletInvalidAmountError);
+  });
+});
+
+describe('Starswap transactions', () => {
+  it('builds an exact input swap with a minimum output', () => {
+    expect(
+      buildSwapExactInTransaction({
+        tokenIn: STC,
+        tokenOut: STAR,
+        amountIn: '1.5',
+        amountOutQuote: '200'
+      })
+    ).toEqual({
+      payload: {
+        type: 'entry_function_payload',
+        function: `${MAIN_ADDRESS}::TokenSwapScripts::swap_exact_token_for_token`,
+        type_arguments: [STC, STAR],
+        arguments: [tokenAmount('1.5', STC), tokenAmount('199', STAR, { rounding: 'down' })]
+      },
+      options: { expiredSecs: STARSWAP_DEFAULT_DEADLINE_SECS }
+    });
+  });
+
+  it('builds an exact output swap with a maximum input', () => {
+    const { payload } = buildSwapExactOutTransaction({
+      tokenIn: STC,
+      tokenOut: STAR,
+      amountOut: BigInt(500),
+      amountInQuote: BigInt(1000),
+      slippageBps: 100
+    });
+    expect(payload.function).toBe(`${MAIN_ADDRESS}::TokenSwapScripts::swap_token_for_exact_token`);
+    expect(payload.arguments).toEqual([
+      tokenAmount(BigInt(1010), STC, { rounding: 'up' }),
+      tokenAmount(BigInt(500), STAR)
+    ]);
+  });
+
+  it('targets the Barnard deployment and honours an explicit address', () => {
+    const params = { tokenIn: STC, tokenOut: STAR, amountIn: '1', amountOutQuote: '1' };
+    expect(
+      buildSwapExactInTransaction({ ...params, network: WalletAdapterNetwork.Barnard }).payload
+        .function
+    ).toBe(`${BARNARD_ADDRESS}::TokenSwapScripts::swap_exact_token_for_token`);
+    expect(
+      buildSwapExactInTransaction({ ...params, network: 'halley', address: '0x1' }).payload.function
+    ).toBe('0x1::TokenSwapScripts::swap_exact_token_for_token');
+  });
+
+  it('fails for a network without a deployment', () => {
+    expect(() =>
+      buildSwapExactInTransaction({
+        tokenIn: STC,
+        tokenOut: STAR,
+        amountIn: '1',
+        amountOutQuote: '1',
+        network: WalletAdapterNetwork.Halley
+      })
+    ).toThrow(WalletConfigError);
+  });
+
+  it('adds liquidity with minimums for both tokens', () => {
+    const { payload } = buildAddLiquidityTransaction({
+      tokenX: STC,
+      tokenY: STAR,
+      amountX: '10',
+      amountY: '20',
+      slippageBps: 1000
+    });
+    expect(payload.function).toBe(`${MAIN_ADDRESS}::TokenSwapScripts::add_liquidity`);
+    expect(payload.arguments).toEqual([
+      tokenAmount('10', STC),
+      tokenAmount('20', STAR),
+      tokenAmount('9', STC, { rounding: 'down' }),
+      tokenAmount('18', STAR, { rounding: 'down' })
+    ]);
+  });
+
+  it('removes liquidity in units of the pair token', () => {
+    const { payload } = buildRemoveLiquidityTransaction({
+      tokenX: STC,
+      tokenY: STAR,
+      liquidity: BigInt(42),
+      amountXQuote: '10',
+      amountYQuote: '20',
+      network: WalletAdapterNetwork.Barnard
+    });
+    const liquidityToken = getLiquidityTokenType(STC, STAR, BARNARD_ADDRESS);
+    expect(liquidityToken).toBe(`${BARNARD_ADDRESS}::TokenSwap::LiquidityToken<${STC}, ${STAR}>`);
+    expect(payload.function).toBe(`${BARNARD_ADDRESS}::TokenSwapScripts::remove_liquidity`);
+    expect(payload.arguments).toEqual([
+      tokenAmount(BigInt(42), liquidityToken),
+      tokenAmount('9.95', STC, { rounding: 'down' }),
+      tokenAmount('19.9', STAR, { rounding: 'down' })
+    ]);
+  });
+
+  it('stakes and unstakes liquidity on the farm', () => {
+    const params = { tokenX: STC, tokenY: STAR, liquidity: '0.5' };
+    const liquidity = tokenAmount('0.5', getLiquidityTokenType(STC, STAR));
+    expect(buildFarmStakeTransaction(params).payload).toMatchObject({
+      function: `${MAIN_ADDRESS}::TokenSwapFarmScript::stake`,
+      type_arguments: [STC, STAR],
+      arguments: [liquidity]
+    });
+    expect(buildFarmUnstakeTransaction(params).payload).toMatchObject({
+      function: `${MAIN_ADDRESS}::TokenSwapFarmScript::unstake`,
+      arguments: [liquidity]
+    });
+  });
+
+  it('claims every pending reward unless an amount is given', () => {
+    const barnardStar = `${BARNARD_ADDRESS}::STAR::STAR`;
+    expect(
+      buildClaimRewardsTransaction({
+        tokenX: STC,
+        tokenY: STAR,
+        network: WalletAdapterNetwork.Barnard
+      }).payload
+    ).toMatchObject({
+      function: `${BARNARD_ADDRESS}::TokenSwapFarmScript::harvest`,
+      arguments: [tokenAmount(BigInt(0), barnardStar)]
+    });
+    expect(
+      buildClaimRewardsTransaction({ tokenX: STC, tokenY: STAR, amount: '3' }).payload.arguments
+    ).toEqual([tokenAmount('3', STAR)]);
+  });
+
+  it('uses deadlineSecs as the transaction expiration', () => {
+    const params = { tokenX: STC, tokenY: STAR, liquidity: '1' };
+    expect(buildFarmStakeTransaction({ ...params, deadlineSecs: 60 }).options).toEqual({
+      expiredSecs: 60
+    });
+    [0, -1, 1.5].forEach((deadlineSecs) => {
+      expect(() => buildFarmStakeTransaction({ ...params, deadlineSecs })).toThrow(
+        WalletInvalidArgumentsError
+      );
+    });
+  });
+
+  it('validates slippage and amounts before building', () => {
+    const params = { tokenIn: STC, tokenOut: STAR, amountIn: '1' };
+    expect(() =>
+      buildSwapExactInTransaction({ ...params, amountOutQuote: '1', slippageBps: 20000 })
+    ).toThrow(WalletInvalidArgumentsError);
+    expect(() => buildSwapExactInTransaction({ ...params, amountOutQuote: '-1' })).toThrow(
+      WalletInvalidAmountError
+    );
+  });
+});
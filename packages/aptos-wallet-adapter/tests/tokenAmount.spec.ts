@@ -0,0 +1,152 @@
+import {
+  formatTokenAmount,
+  isTokenAmount,
+  parseTokenAmount,
+  scalingFactorToDecimals,
+  tokenAmount
+} from '../src/utilities/tokenAmount';
+import { WalletInvalidAmountError } from '../src/WalletProviders/errors';
+
+const STC_SCALING_FACTOR = '1000000000';
+
+describe('scalingFactorToDecimals', () => {
+  it('counts the zeros of a power of ten', () => {
+    expect(scalingFactorToDecimals(1)).toBe(0);
+    expect(scalingFactorToDecimals(STC_SCALING_FACTOR)).toBe(9);
+    expect(scalingFactorToDecimals(BigInt('1000000000000000000'))).toBe(18);
+  });
+
+  it.each([0, 20, '1e9', '-10', 1.5])('rejects %p', (scalingFactor) => {
+    expect(() => scalingFactorToDecimals(scalingFactor)).toThrow(WalletInvalidAmountError);
+  });
+});
+
+describe('parseTokenAmount', () => {
+  it('scales decimal strings into on-chain units', () => {
+    expect(parseTokenAmount('1', STC_SCALING_FACTOR)).toBe('1000000000');
+    expect(parseTokenAmount('12.345', STC_SCALING_FACTOR)).toBe('12345000000');
+    expect(parseTokenAmount('0.000000001', STC_SCALING_FACTOR)).toBe('1');
+    expect(parseTokenAmount(' 0.5 ', STC_SCALING_FACTOR)).toBe('500000000');
+  });
+
+  it('handles zero, leading zeros and trailing zeros past the precision', () => {
+    expect(parseTokenAmount('0', STC_SCALING_FACTOR)).toBe('0');
+    expect(parseTokenAmount('0.0', STC_SCALING_FACTOR)).toBe('0');
+    expect(parseTokenAmount('007.5', STC_SCALING_FACTOR)).toBe('7500000000');
+    expect(parseTokenAmount('1.5000000000000', STC_SCALING_FACTOR)).toBe('1500000000');
+    expect(parseTokenAmount('42', 1)).toBe('42');
+  });
+
+  it('stays exact for amounts beyond floating point precision', () => {
+    expect(parseTokenAmount('340282366920938463463.374607431', STC_SCALING_FACTOR)).toBe(
+      '340282366920938463463374607431'
+    );
+    expect(parseTokenAmount('9007199254740993', 1)).toBe('9007199254740993');
+  });
+
+  it('passes bigints through as on-chain units', () => {
+    expect(parseTokenAmount(BigInt(15), STC_SCALING_FACTOR)).toBe('15');
+    expect(parseTokenAmount(BigInt(0), 'not a scaling factor')).toBe('0');
+  });
+
+  it('rejects amounts more precise than the token', () => {
+    expect(() => parseTokenAmount('0.0000000001', STC_SCALING_FACTOR)).toThrow(
+      'at most 9 decimal places'
+    );
+    expect(() => parseTokenAmount('1.5', 1)).toThrow(WalletInvalidAmountError);
+  });
+
+  it('rounds extra precision in the requested direction', () => {
+    expect(parseTokenAmount('1.0000000019', STC_SCALING_FACTOR, { rounding: 'down' })).toBe(
+      '1000000001'
+    );
+    expect(parseTokenAmount('1.0000000011', STC_SCALING_FACTOR, { rounding: 'up' })).toBe(
+      '1000000002'
+    );
+    expect(parseTokenAmount('0.0000000001', STC_SCALING_FACTOR, { rounding: 'down' })).toBe('0');
+    expect(parseTokenAmount('0.0000000001', STC_SCALING_FACTOR, { rounding: 'up' })).toBe('1');
+  });
+
+  it('leaves amounts within the precision untouched when rounding', () => {
+    expect(parseTokenAmount('2.5', STC_SCALING_FACTOR, { rounding: 'up' })).toBe('2500000000');
+  });
+
+  it.each(['-1', '1e9', '.5', '1.', '1,5', '', '0x10', 'abc'])('rejects %p', (amount) => {
+    expect(() => parseTokenAmount(amount, STC_SCALING_FACTOR)).toThrow(WalletInvalidAmountError);
+  });
+
+  it('rejects negative bigints and non-string amounts', () => {
+    expect(() => parseTokenAmount(BigInt(-1), STC_SCALING_FACTOR)).toThrow('must not be negative');
+    expect(() => parseTokenAmount(1.5 as any, STC_SCALING_FACTOR)).toThrow(
+      WalletInvalidAmountError
+    );
+  });
+
+  it('reports the offending field and value', () => {
+    expect.assertions(3);
+    try {
+      parseTokenAmount('-1', STC_SCALING_FACTOR);
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(WalletInvalidAmountError);
+      expect(error.field).toBe('amount');
+      expect(error.value).toBe('-1');
+    }
+  });
+});
+
+describe('formatTokenAmount', () => {
+  it('scales on-chain units back into token units', () => {
+    expect(formatTokenAmount('12345000000', STC_SCALING_FACTOR)).toBe('12.345');
+    expect(formatTokenAmount(1, STC_SCALING_FACTOR)).toBe('0.000000001');
+    expect(formatTokenAmount(BigInt(0), STC_SCALING_FACTOR)).toBe('0');
+    expect(formatTokenAmount('42', 1)).toBe('42');
+  });
+
+  it('stays exact for amounts beyond floating point precision', () => {
+    expect(formatTokenAmount(BigInt('340282366920938463463374607431768211455'), 1)).toBe(
+      '340282366920938463463374607431768211455'
+    );
+    expect(formatTokenAmount('340282366920938463463374607431', STC_SCALING_FACTOR)).toBe(
+      '340282366920938463463.374607431'
+    );
+  });
+
+  it('truncates to maxDecimals without rounding up', () => {
+    expect(formatTokenAmount('1999999999', STC_SCALING_FACTOR, { maxDecimals: 2 })).toBe('1.99');
+    expect(formatTokenAmount('1999999999', STC_SCALING_FACTOR, { maxDecimals: 0 })).toBe('1');
+    expect(formatTokenAmount('1500000000', STC_SCALING_FACTOR, { maxDecimals: 4 })).toBe('1.5');
+    expect(formatTokenAmount('15', 1, { maxDecimals: 4 })).toBe('15');
+  });
+
+  it('round-trips parsed amounts', () => {
+    ['0', '1', '0.000000001', '123456789.987654321'].forEach((amount) => {
+      expect(
+        formatTokenAmount(parseTokenAmount(amount, STC_SCALING_FACTOR), STC_SCALING_FACTOR)
+      ).toBe(amount);
+    });
+  });
+
+  it.each(['-1', '1.5', 'abc', Infinity, NaN])('rejects units %p', (units) => {
+    expect(() => formatTokenAmount(units, STC_SCALING_FACTOR)).toThrow(WalletInvalidAmountError);
+  });
+
+  it('rejects an invalid scaling factor', () => {
+    expect(() => formatTokenAmount('1', '12')).toThrow('not a power of ten');
+  });
+});
+
+describe('tokenAmount', () => {
+  it('marks arguments for conversion by the adapter', () => {
+    const amount = tokenAmount('1.5', '0x1::STC::STC');
+    expect(amount).toEqual({ __tokenAmount__: true, token: '0x1::STC::STC', amount: '1.5' });
+    expect(isTokenAmount(amount)).toBe(true);
+    expect(tokenAmount(BigInt(1), '0x1::STC::STC', { rounding: 'up' }).rounding).toBe('up');
+  });
+
+  it.each([null, undefined, '1.5', BigInt(1), { token: '0x1::STC::STC', amount: '1' }])(
+    'does not mistake %p for a token amount',
+    (value) => {
+      expect(isTokenAmount(value)).toBe(false);
+    }
+  );
+});
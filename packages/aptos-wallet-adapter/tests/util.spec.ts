@@ -0,0 +1,96 @@
+import { withTimeout } from '../src/utilities/util';
+import { WalletAbortedError, WalletTimeoutError } from '../src/WalletProviders/errors';
+
+const never = <T = void>() => new Promise<T>(() => undefined);
+
+const resolveAfter = <T>(ms: number, value: T) =>
+  new Promise<T>((resolve) => setTimeout(() => resolve(value), ms));
+
+describe('withTimeout', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('settles with the promise when it is in time', async () => {
+    const result = withTimeout(resolveAfter(50, 'signed'), 100, 'signMessage');
+    jest.advanceTimersByTime(50);
+    await expect(result).resolves.toBe('signed');
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('passes rejections through', async () => {
+    const error = new Error('rejected');
+    await expect(withTimeout(Promise.reject(error), 100, 'connect')).rejects.toBe(error);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('rejects with WalletTimeoutError once the timeout expires', async () => {
+    const result = withTimeout(never(), 100, 'connect');
+    jest.advanceTimersByTime(99);
+    const settled = jest.fn();
+    result.then(settled, settled);
+    await Promise.resolve();
+    expect(settled).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    await expect(result).rejects.toThrow(new WalletTimeoutError('connect timed out after 100ms'));
+  });
+
+  it('drops a result that arrives after the timeout', async () => {
+    const result = withTimeout(resolveAfter(200, 'late'), 100, 'connect');
+    jest.advanceTimersByTime(200);
+    await expect(result).rejects.toBeInstanceOf(WalletTimeoutError);
+  });
+
+  it.each([0, Infinity])('never times out with a timeout of %p', async (timeout) => {
+    const promise = resolveAfter(60000, 'slow');
+    const result = withTimeout(promise, timeout, 'connect');
+    expect(result).toBe(promise);
+    jest.advanceTimersByTime(60000);
+    await expect(result).resolves.toBe('slow');
+  });
+
+  it('rejects right away when the signal has already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const rejected = Promise.reject(new Error('ignored'));
+    await expect(withTimeout(rejected, 100, 'connect', controller.signal)).rejects.toThrow(
+      new WalletAbortedError('connect was aborted')
+    );
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('rejects with WalletAbortedError when the signal aborts during the call', async () => {
+    const controller = new AbortController();
+    const result = withTimeout(never(), 100, 'signMessage', controller.signal);
+    jest.advanceTimersByTime(50);
+    controller.abort();
+    await expect(result).rejects.toBeInstanceOf(WalletAbortedError);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('honours the signal when the timeout is disabled', async () => {
+    const controller = new AbortController();
+    const result = withTimeout(never(), 0, 'connect', controller.signal);
+    controller.abort();
+    await expect(result).rejects.toBeInstanceOf(WalletAbortedError);
+  });
+
+  it('stops listening to the signal once settled', async () => {
+    const controller = new AbortController();
+    const removeEventListener = jest.spyOn(controller.signal, 'removeEventListener');
+    await expect(
+      withTimeout(Promise.resolve('done'), 100, 'connect', controller.signal)
+    ).resolves.toBe('done');
+    expect(removeEventListener).toHaveBeenCalledWith('abort', expect.any(Function));
+
+    const timedOut = withTimeout(never(), 100, 'connect', controller.signal);
+    jest.advanceTimersByTime(100);
+    await expect(timedOut).rejects.toBeInstanceOf(WalletTimeoutError);
+    expect(removeEventListener).toHaveBeenCalledTimes(2);
+  });
+});
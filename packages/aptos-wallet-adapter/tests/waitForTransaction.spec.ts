@@ -0,0 +1,54 @@
+import { pollForResult } from '../src/utilities/waitForTransaction';
+import { WalletAbortedError, WalletTimeoutError } from '../src/WalletProviders/errors';
+
+const never = <T>() => new Promise<T>(() => undefined);
+
+describe('pollForResult', () => {
+  it('polls until a result arrives', async () => {
+    const fetchResult = jest
+      .fn()
+      .mockResolvedValueOnce(undefined)
+      .mockResolvedValueOnce(undefined)
+      .mockResolvedValue('executed');
+    await expect(pollForResult(fetchResult, { pollIntervalMs: 5 })).resolves.toBe('executed');
+    expect(fetchResult).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up once the next poll would pass the deadline', async () => {
+    const fetchResult = jest.fn().mockResolvedValue(undefined);
+    await expect(pollForResult(fetchResult, { timeoutMs: 50, pollIntervalMs: 20 })).rejects.toThrow(
+      new WalletTimeoutError('Timed out after 50ms')
+    );
+    expect(fetchResult.mock.calls.length).toBeLessThanOrEqual(3);
+  });
+
+  it('bounds a request that never answers by timeoutMs', async () => {
+    const startedAt = Date.now();
+    await expect(pollForResult(never, { timeoutMs: 50 })).rejects.toThrow(
+      new WalletTimeoutError('Timed out after 50ms')
+    );
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+
+  it('bounds a later request by the time left', async () => {
+    const fetchResult = jest.fn().mockResolvedValueOnce(undefined).mockImplementation(never);
+    const startedAt = Date.now();
+    await expect(
+      pollForResult(fetchResult, { timeoutMs: 100, pollIntervalMs: 10 })
+    ).rejects.toThrow(WalletTimeoutError);
+    expect(fetchResult).toHaveBeenCalledTimes(2);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+
+  it('passes request failures through', async () => {
+    const error = new Error('node unavailable');
+    await expect(pollForResult(() => Promise.reject(error))).rejects.toBe(error);
+  });
+
+  it('rejects with WalletAbortedError when aborted while waiting', async () => {
+    const controller = new AbortController();
+    const result = pollForResult(never, { signal: controller.signal });
+    controller.abort();
+    await expect(result).rejects.toBeInstanceOf(WalletAbortedError);
+  });
+});